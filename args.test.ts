@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseArgs } from "./args";
+
+test("named values, flags and positional arguments are told apart", () => {
+  assert.deepEqual(
+    parseArgs(["klines.json", "--volume", "0.3", "--paper"], ["paper"]),
+    { args: { volume: "0.3", paper: "true" }, positional: ["klines.json"] }
+  );
+});
+
+test("a declared flag never takes the next argument", () => {
+  assert.deepEqual(parseArgs(["--paper", "reset"], ["paper"]), {
+    args: { paper: "true" },
+    positional: ["reset"],
+  });
+  // An undeclared one does
+  assert.deepEqual(parseArgs(["--wallet", "reset"]), {
+    args: { wallet: "reset" },
+    positional: [],
+  });
+});
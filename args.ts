@@ -0,0 +1,32 @@
+// Command line parsing for the backtest, ledger and risk scripts. "--name
+// value" pairs become args, the `flags` a script declares, like --paper, are
+// set to "true" without taking the next argument, and everything else is
+// positional.
+export function parseArgs(
+  argv: string[],
+  flags: string[] = []
+): {
+  args: { [key: string]: string };
+  positional: string[];
+} {
+  const args: { [key: string]: string } = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) {
+      positional.push(argv[i]);
+      continue;
+    }
+    const value = argv[i + 1];
+    if (
+      flags.includes(argv[i].slice(2)) ||
+      value === undefined ||
+      value.startsWith("--")
+    ) {
+      args[argv[i].slice(2)] = "true";
+    } else {
+      args[argv[i].slice(2)] = value;
+      i++;
+    }
+  }
+  return { args, positional };
+}
@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { runBacktest, BacktestOptions } from "./backtest";
+import { Strategy, StrategyDecision } from "./strategy";
+import { config } from "./config";
+
+const MINUTE = 60 * 1000;
+
+function candle(index: number, low: number, high: number, close: number) {
+  return {
+    openTime: index * MINUTE,
+    closeTime: (index + 1) * MINUTE - 1,
+    openPrice: close,
+    highPrice: high,
+    lowPrice: low,
+    closePrice: close,
+  };
+}
+
+// Places the scripted decision on the candle with the same index
+function scripted(decisions: { [index: number]: StrategyDecision }): Strategy {
+  let index = 0;
+  return {
+    name: "scripted",
+    requires: [],
+    decide: () => decisions[index++] ?? { action: "hold", reason: "" },
+  };
+}
+
+function order(side: Side, priceOffset: number, size: number) {
+  return { action: "order" as const, side, priceOffset, size, reason: "" };
+}
+
+const options: Omit<BacktestOptions, "strategy"> = {
+  volume: 10,
+  percentage: 0,
+  cancelTime: 60,
+  initialBase: 0,
+  initialQuote: 100,
+  feeBps: 0,
+};
+
+test("base held from the start is realized against the first close", () => {
+  const result = runBacktest(
+    [candle(0, 100, 100, 100), candle(1, 100, 101, 100)],
+    {
+      ...options,
+      initialBase: 1,
+      strategy: scripted({ 0: order(Side.Ask, 0.01, 100) }),
+    }
+  );
+  assert.equal(result.trades.length, 1);
+  assert.ok(Math.abs(result.trades[0].realizedPnl - 1) < 1e-9);
+});
+
+test("buy fees are part of the realized PnL", () => {
+  const result = runBacktest(
+    [
+      candle(0, 100, 100, 100),
+      candle(1, 100, 100, 100),
+      candle(2, 100, 100, 100),
+    ],
+    {
+      ...options,
+      feeBps: 100,
+      strategy: scripted({
+        0: order(Side.Bid, 0, 10),
+        1: order(Side.Ask, 0, 10),
+      }),
+    }
+  );
+  const sell = result.trades.find((trade) => trade.side === "SELL")!;
+  // 0.1 paid buying and 0.1 selling
+  assert.ok(Math.abs(sell.realizedPnl + 0.2) < 1e-9);
+  assert.equal(result.winRate, 0);
+});
+
+test("an order fills on the candle after it, however short cancelTime is", () => {
+  const result = runBacktest(
+    [candle(0, 100, 100, 100), candle(1, 90, 100, 100)],
+    {
+      ...options,
+      cancelTime: 30,
+      strategy: scripted({ 0: order(Side.Bid, -0.05, 10) }),
+    }
+  );
+  assert.equal(result.trades.length, 1);
+  assert.equal(result.ordersExpired, 0);
+});
+
+test("an order expired before a candle opens does not fill on it", () => {
+  const result = runBacktest(
+    [
+      candle(0, 100, 100, 100),
+      candle(1, 100, 100, 100),
+      candle(2, 90, 100, 100),
+    ],
+    {
+      ...options,
+      cancelTime: 30,
+      strategy: scripted({ 0: order(Side.Bid, -0.05, 10) }),
+    }
+  );
+  assert.equal(result.trades.length, 0);
+  assert.equal(result.ordersExpired, 1);
+});
+
+test("orders fill with the default cancelTime on the default interval", () => {
+  const interval = 5 * MINUTE;
+  assert.equal(config.markets["SOL/USDC"].interval, "5m");
+  // A candle every 5 minutes, alternating between dips and spikes
+  const candles = Array.from({ length: 6 }, (_, index) => ({
+    openTime: index * interval,
+    closeTime: (index + 1) * interval - 1,
+    openPrice: 100,
+    highPrice: index % 2 === 0 ? 110 : 100,
+    lowPrice: index % 2 === 0 ? 100 : 90,
+    closePrice: 100,
+  }));
+  const result = runBacktest(candles, {
+    ...options,
+    cancelTime: config.cancelTime,
+    strategy: scripted({
+      0: order(Side.Bid, -0.05, 10),
+      2: order(Side.Bid, -0.05, 10),
+    }),
+  });
+  assert.equal(result.ordersPlaced, 2);
+  assert.equal(result.trades.length, 2);
+});
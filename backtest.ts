@@ -0,0 +1,284 @@
+import fs from "fs";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import {
+  calculateIndicatorsFromCandles,
+  candleStickFromAPIData,
+  MAX_CANDLE_STICKS_LENGTH,
+} from "./rsi";
+import { getStrategy, missingIndicators, Strategy } from "./strategy";
+import { config } from "./config";
+import { calculateOffset } from "./offset";
+import { RegimeDetector } from "./regime";
+import { readJsonl } from "./jsonl";
+import { parseArgs } from "./args";
+
+export type BacktestOptions = {
+  strategy: Strategy;
+  volume: number; // Order size in USD
+  percentage: number; // Price offset in percent
+  cancelTime: number; // Time in seconds before a resting order expires
+  initialBase: number;
+  initialQuote: number;
+  feeBps: number; // Fee charged on every fill, in basis points
+};
+
+export type BacktestOrder = {
+  side: Side;
+  price: number;
+  size: number; // In base units
+  placedAt: number;
+  expiresAt: number;
+};
+
+export type BacktestTrade = {
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+  fee: number;
+  placedAt: number;
+  filledAt: number;
+  realizedPnl: number; // Sells only, against the average cost including buy fees
+};
+
+export type BacktestResult = {
+  trades: BacktestTrade[];
+  ordersPlaced: number;
+  ordersExpired: number;
+  initialEquity: number;
+  finalEquity: number;
+  pnl: number;
+  pnlPercent: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  winRate: number;
+  finalBase: number;
+  finalQuote: number;
+};
+
+// Accepts a JSON array or JSONL file of candles, either in the shape produced
+// by candleStickFromAPIData or as raw Binance kline arrays.
+export function loadCandleFile(filePath: string): any[] {
+  const content = fs.readFileSync(filePath, "utf8").trim();
+  const rows = content.startsWith("[")
+    ? JSON.parse(content)
+    : readJsonl(filePath);
+  const candles = Array.isArray(rows[0]) ? candleStickFromAPIData(rows) : rows;
+  return candles.sort((a: any, b: any) => a.openTime - b.openTime);
+}
+
+export function runBacktest(
+  candles: any[],
+  options: BacktestOptions
+): BacktestResult {
+  let base = options.initialBase;
+  let quote = options.initialQuote;
+  let openOrders: BacktestOrder[] = [];
+  let ordersPlaced = 0;
+  let ordersExpired = 0;
+  const trades: BacktestTrade[] = [];
+  const regimeDetector = new RegimeDetector();
+
+  const firstPrice = candles.length > 0 ? candles[0].closePrice : 0;
+  const initialEquity = quote + base * firstPrice;
+  // Base held from the start is valued like the initial equity
+  let averageEntryPrice = base > 0 ? firstPrice : 0;
+  let peakEquity = initialEquity;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+
+  const fill = (order: BacktestOrder, filledAt: number) => {
+    const notional = order.size * order.price;
+    const fee = (notional * options.feeBps) / 10_000;
+    let realizedPnl = 0;
+    if (order.side === Side.Bid) {
+      averageEntryPrice =
+        (averageEntryPrice * base + notional + fee) / (base + order.size);
+      base += order.size;
+      quote -= notional + fee;
+    } else {
+      realizedPnl = (order.price - averageEntryPrice) * order.size - fee;
+      base -= order.size;
+      quote += notional - fee;
+      if (base <= 0) averageEntryPrice = 0;
+    }
+    trades.push({
+      side: order.side === Side.Bid ? "BUY" : "SELL",
+      price: order.price,
+      size: order.size,
+      fee,
+      placedAt: order.placedAt,
+      filledAt,
+      realizedPnl,
+    });
+  };
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+
+    // Expire orders that were not filled within cancelTime, then fill what the
+    // candle range crossed. An order still valid when the candle opens may
+    // fill on it: live orders are placed at the close and cancelTime is
+    // usually shorter than a candle, so they only ever get the next one.
+    openOrders = openOrders.filter((order) => {
+      if (candle.openTime >= order.expiresAt) {
+        ordersExpired++;
+        return false;
+      }
+      const crossed =
+        order.side === Side.Bid
+          ? candle.lowPrice <= order.price
+          : candle.highPrice >= order.price;
+      if (crossed) {
+        fill(order, candle.closeTime);
+        return false;
+      }
+      return true;
+    });
+
+    const equity = quote + base * candle.closePrice;
+    peakEquity = Math.max(peakEquity, equity);
+    if (peakEquity - equity > maxDrawdown) {
+      maxDrawdown = peakEquity - equity;
+      maxDrawdownPercent =
+        peakEquity > 0 ? (maxDrawdown / peakEquity) * 100 : 0;
+    }
+
+    // Mirror the live buffer: closed candles plus the latest price
+    const buffer = candles.slice(
+      Math.max(0, i + 1 - MAX_CANDLE_STICKS_LENGTH),
+      i + 1
+    );
+    const currentPrice = candle.closePrice;
+    const indicators = calculateIndicatorsFromCandles(buffer, currentPrice);
+    if (missingIndicators(options.strategy, indicators).length > 0) {
+      continue;
+    }
+
+    const regime = regimeDetector.update(buffer, indicators);
+    const offset = calculateOffset(buffer, currentPrice, options.percentage);
+    const decision = options.strategy.decide({
+      indicators,
+      currentPrice,
+      volume: options.volume,
+      percentage: offset.percentage,
+      regime,
+    });
+    if (decision.action === "hold") continue;
+
+    const price = currentPrice * (1 + decision.priceOffset);
+    const size = decision.size / currentPrice;
+
+    // Skip orders the virtual balances cannot cover, like trade() does
+    const reservedQuote = openOrders
+      .filter((order) => order.side === Side.Bid)
+      .reduce((sum, order) => sum + order.size * order.price, 0);
+    const reservedBase = openOrders
+      .filter((order) => order.side === Side.Ask)
+      .reduce((sum, order) => sum + order.size, 0);
+    if (decision.side === Side.Bid && quote - reservedQuote < size * price) {
+      continue;
+    }
+    if (decision.side === Side.Ask && base - reservedBase < size) {
+      continue;
+    }
+
+    openOrders.push({
+      side: decision.side,
+      price,
+      size,
+      placedAt: candle.closeTime,
+      expiresAt: candle.closeTime + options.cancelTime * 1000,
+    });
+    ordersPlaced++;
+  }
+
+  const lastPrice =
+    candles.length > 0 ? candles[candles.length - 1].closePrice : 0;
+  const finalEquity = quote + base * lastPrice;
+  const sells = trades.filter((trade) => trade.side === "SELL");
+  const wins = sells.filter((trade) => trade.realizedPnl > 0);
+
+  return {
+    trades,
+    ordersPlaced,
+    ordersExpired,
+    initialEquity,
+    finalEquity,
+    pnl: finalEquity - initialEquity,
+    pnlPercent:
+      initialEquity > 0
+        ? ((finalEquity - initialEquity) / initialEquity) * 100
+        : 0,
+    maxDrawdown,
+    maxDrawdownPercent,
+    winRate: sells.length > 0 ? (wins.length / sells.length) * 100 : 0,
+    finalBase: base,
+    finalQuote: quote,
+  };
+}
+
+function main() {
+  const { args, positional } = parseArgs(process.argv.slice(2));
+  const filePath = positional[0];
+  if (!filePath) {
+    console.error(
+      "Usage: ts-node backtest.ts <klines.json|jsonl> [--strategy sideway|trend|auto] [--percentage 10] [--volume 0.15] [--cancelTime 60] [--WMAlimitBuy 45] [--WMAlimitSell 55] [--offsetMode fixed|atr|volatility] [--initialBase 0] [--initialQuote 100] [--feeBps 0] [--output result.json]"
+    );
+    process.exit(1);
+  }
+
+  // Strategies read their limits from config, so override them in place
+  if (args.WMAlimitBuy) config.WMAlimitBuy = Number(args.WMAlimitBuy);
+  if (args.WMAlimitSell) config.WMAlimitSell = Number(args.WMAlimitSell);
+  if (args.offsetMode) config.offset.mode = args.offsetMode;
+
+  const candles = loadCandleFile(filePath);
+  const result = runBacktest(candles, {
+    strategy: getStrategy(args.strategy ?? config.strategy),
+    volume: Number(args.volume ?? config.volume),
+    percentage: Number(args.percentage ?? config.percentage),
+    cancelTime: Number(args.cancelTime ?? config.cancelTime),
+    initialBase: Number(args.initialBase ?? 0),
+    initialQuote: Number(args.initialQuote ?? 100),
+    feeBps: Number(args.feeBps ?? 0),
+  });
+
+  result.trades.forEach((trade) => {
+    console.log(
+      `${new Date(trade.filledAt).toISOString()} ${
+        trade.side
+      } ${trade.size.toFixed(6)} @ ${trade.price.toFixed(
+        4
+      )}, fee: ${trade.fee.toFixed(
+        6
+      )}, realized PnL: ${trade.realizedPnl.toFixed(6)}`
+    );
+  });
+  console.log(`\nCandles: ${candles.length}`);
+  console.log(
+    `Orders placed: ${result.ordersPlaced}, filled: ${result.trades.length}, expired: ${result.ordersExpired}`
+  );
+  console.log(
+    `Initial equity: ${result.initialEquity.toFixed(
+      4
+    )}, final equity: ${result.finalEquity.toFixed(4)}`
+  );
+  console.log(
+    `PnL: ${result.pnl.toFixed(4)} (${result.pnlPercent.toFixed(2)}%)`
+  );
+  console.log(
+    `Max drawdown: ${result.maxDrawdown.toFixed(
+      4
+    )} (${result.maxDrawdownPercent.toFixed(2)}%)`
+  );
+  console.log(`Win rate: ${result.winRate.toFixed(2)}%`);
+
+  if (args.output) {
+    fs.writeFileSync(args.output, JSON.stringify(result, null, 2));
+    console.log(`Result written to ${args.output}`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,54 @@
+import path from "path";
+import { config } from "./config";
+import { appendJsonl, readJsonl } from "./jsonl";
+
+// Closed candles are kept as one JSONL file per symbol/interval, in the same
+// shape candleStickFromAPIData produces, so the files can also be replayed by
+// the backtester.
+export function candleStorePath(symbol: string, interval: string): string {
+  return path.join(config.candleStore.directory, `${symbol}_${interval}.jsonl`);
+}
+
+export function loadCandleSticks(symbol: string, interval: string): any[] {
+  if (!config.candleStore.enabled) return [];
+
+  const candleSticks = new Map<number, any>();
+  readJsonl(candleStorePath(symbol, interval)).forEach((candle) =>
+    candleSticks.set(candle.openTime, candle)
+  );
+  return Array.from(candleSticks.values()).sort(
+    (a, b) => a.openTime - b.openTime
+  );
+}
+
+export function appendCandleSticks(
+  symbol: string,
+  interval: string,
+  candleSticks: any[]
+): void {
+  if (!config.candleStore.enabled || candleSticks.length === 0) return;
+  try {
+    appendJsonl(
+      candleStorePath(symbol, interval),
+      candleSticks.map(
+        ({
+          openTime,
+          closeTime,
+          openPrice,
+          closePrice,
+          highPrice,
+          lowPrice,
+        }) => ({
+          openTime,
+          closeTime,
+          openPrice,
+          closePrice,
+          highPrice,
+          lowPrice,
+        })
+      )
+    );
+  } catch (error) {
+    console.error(`Failed to store ${symbol} ${interval} candlesticks:`, error);
+  }
+}
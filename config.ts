@@ -5,8 +5,191 @@ export const config = {
   },
   volume: 0.15, // Adjust volume as needed
   percentage: 10, // Adjust percentage as needed
-  sideway: true, // Set to true if the market is sideway
+  strategy: "sideway", // "sideway", "trend", or "auto" to follow the detected regime
+  // "signal" places one order per cycle from the strategy, "grid" keeps a
+  // ladder (see grid) and "marketMaking" quotes both sides (see marketMaking)
+  mode: "signal",
   cancelTime: 60, // Time in seconds to cancel orders
   WMAlimitBuy: 45, // Adjust WMA limit for buy orders
   WMAlimitSell: 55, // Adjust WMA limit for sell orders
+  // Phoenix markets to trade, keyed by market name. Each one maps to its
+  // Binance symbol and candle interval, and may override the trading
+  // parameters above.
+  markets: {
+    "SOL/USDC": { symbol: "SOLUSDC", interval: "5m" },
+  } as {
+    [marketName: string]: {
+      symbol: string;
+      interval: string;
+      volume?: number;
+      percentage?: number;
+      strategy?: string;
+      mode?: string;
+      cancelTime?: number;
+    };
+  },
+  // Per-wallet overrides keyed by public key, for example:
+  // "<public key>": { volume: 0.3, percentage: 5, strategy: "trend" }
+  wallets: {} as {
+    [publicKey: string]: {
+      volume?: number;
+      percentage?: number;
+      strategy?: string;
+      mode?: string;
+      cancelTime?: number;
+    };
+  },
+  // Indicators to compute each cycle. Remove an entry to disable it; the
+  // built-in strategies need rsi, wma and ema.
+  indicators: {
+    rsi: { period: 14 },
+    wma: { period: 45 }, // WMA of the RSI series
+    ema: { period: 9 }, // EMA of the RSI series
+    macd: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+    bollingerBands: { period: 20, stdDev: 2 },
+    atr: { period: 14 },
+    stochasticRsi: {
+      rsiPeriod: 14,
+      stochasticPeriod: 14,
+      kPeriod: 3,
+      dPeriod: 3,
+    },
+    adx: { period: 14 },
+  },
+  regime: {
+    // How the "auto" strategy tells sideways from trending markets: "adx",
+    // "bbWidth" (Bollinger band width) or "wmaSlope" (slope of the RSI's WMA).
+    // Each method enters a trend above its *Trend value and leaves it below
+    // its *Sideway value.
+    method: "adx",
+    adxTrend: 25,
+    adxSideway: 20,
+    bbWidthTrend: 0.04,
+    bbWidthSideway: 0.025,
+    wmaSlopePeriod: 5, // Candles the WMA slope is measured over
+    wmaSlopeTrend: 0.3,
+    wmaSlopeSideway: 0.15,
+    confirmCycles: 3, // Consecutive readings needed to switch regime
+  },
+  offset: {
+    // "fixed" rests orders at `percentage` from the price, "atr" and
+    // "volatility" scale the offset with recent candles instead
+    mode: "fixed",
+    period: 14, // Candles used for the ATR or realized volatility
+    atrMultiplier: 1.5,
+    volatilityMultiplier: 2,
+    minPercentage: 0.2,
+    maxPercentage: 10,
+  },
+  confirmation: {
+    // Higher timeframes that must agree before a BUY or SELL is placed. Rules:
+    // rsiNotFalling, rsiNotRising, notUptrend, notDowntrend, macdBullish,
+    // macdBearish. Empty trades on the market's interval alone. For example:
+    //   { interval: "15m", buy: ["rsiNotFalling"], sell: ["rsiNotRising"] },
+    //   { interval: "1h", buy: ["rsiNotFalling"], sell: ["notUptrend"] },
+    timeframes: [] as { interval: string; buy: string[]; sell: string[] }[],
+  },
+  priceSource: {
+    maxDivergencePercent: 1, // Refuse to quote when Binance and Phoenix prices differ by more
+    maxPriceAgeSeconds: 30, // Prices older than this are treated as stale
+  },
+  guard: {
+    // Trading pauses while the Binance feed looks broken. Keep
+    // maxPriceAgeSeconds above priceSource.maxPriceAgeSeconds so a short
+    // stall falls back to the Phoenix price before pausing.
+    maxPriceAgeSeconds: 120, // Pause when the price hasn't ticked for longer
+    maxCandleDelaySeconds: 60, // Pause when the next candle is this late
+    maxPriceJumpPercent: 5, // A tick moving more than this is implausible
+    jumpPauseSeconds: 60, // How long to pause after an implausible tick
+  },
+  candleStore: {
+    // Closed candles are saved here and reloaded on restart
+    enabled: true,
+    directory: "data/candles",
+  },
+  fills: {
+    // Phoenix market transactions are polled for the wallets' fills, reduces
+    // and evictions, which are saved here
+    pollSeconds: 10,
+    maxSignaturesPerPoll: 1000, // Older activity is skipped past this many
+    directory: "data/fills",
+  },
+  ledger: {
+    // Every fill with the wallet's running position and PnL
+    file: "data/ledger.jsonl",
+  },
+  risk: {
+    // Checked for each wallet and market before every order, 0 disables a
+    // limit and all are off by default. An order that would exceed a limit is
+    // rejected; a wallet already past one is halted until
+    // `npm run risk -- reset`. For example maxBaseInventory: 5,
+    // maxQuoteExposure: 100, maxOpenOrders: 5, maxOrdersPerHour: 60,
+    // maxDailyLoss: 20.
+    maxBaseInventory: 0, // In base units, including the order
+    maxQuoteExposure: 0, // Quote in resting bids, including the order
+    maxOpenOrders: 0,
+    maxOrdersPerHour: 0,
+    maxDailyLoss: 0, // Realized loss plus fees since UTC midnight, in quote
+    cancelOnBreach: false, // Cancel the wallet's resting orders when halted
+    stateFile: "data/risk.json", // Halted wallets, survives restarts
+  },
+  grid: {
+    // Used in "grid" mode: `volume` USD is spread over `levels` orders on each
+    // side of the price, and the ladder is rebuilt once the price leaves it
+    levels: 3,
+    sides: "both", // "both", "buy" or "sell"
+    spacing: "linear", // "linear" steps by a fixed amount, "geometric" by a fixed ratio
+    stepPercentage: 0.5, // Distance between levels
+    sizes: [] as number[], // Relative size per level from the price outwards, equal when empty
+  },
+  marketMaking: {
+    // Used in "marketMaking" mode: a bid and an ask of `volume` USD each rest
+    // around the Phoenix book mid
+    spreadPercentage: 0.2, // Distance between the bid and the ask
+    skewPercentage: 0.1, // Both quotes move down by this much when the wallet holds only base, up when only quote
+    refreshPercentage: 0.05, // Quotes are replaced once the mid moves further
+    maxBaseShare: 0.8, // Stop bidding once base is this share of the wallet's value
+    minBaseShare: 0.2, // Stop asking once base is below this share
+    refreshSeconds: 10, // Time between checks of the mid
+  },
+  exits: {
+    // Exit orders attached to every filled entry, in percent of the entry
+    // price. 0 disables each rule; with both at 0 entries are left alone.
+    takeProfitPercentage: 0, // Resting order on the other side of the entry
+    stopLossPercentage: 0, // Watched level, closes with a marketable order
+    trailingStopPercentage: 0, // Trails the stop behind the best price seen
+    stopSlippagePercentage: 0.5, // How far past the price the stop order goes
+  },
+  onboarding: {
+    // Wallets without a seat on the market get one before they start trading
+    timeoutSeconds: 120, // How long to wait for the seat to show up
+  },
+  errors: {
+    // Failed orders that retrying cannot fix, like a wallet out of SOL or a
+    // congested network, pause the wallet; the pause doubles on every
+    // consecutive failure
+    backOffSeconds: 30,
+    maxBackOffSeconds: 600,
+  },
+  sender: {
+    // Every transaction is simulated to size its compute budget, sent with a
+    // priority fee and rebroadcast until confirmed
+    computeUnitMargin: 1.2, // Compute unit limit over the units simulated
+    minComputeUnits: 10000,
+    fallbackComputeUnits: 500000, // When the simulation reports no units
+    priorityFeeMicroLamports: 1000, // Price per compute unit, the floor when estimating
+    estimatePriorityFee: true, // Follow recent fees paid on the same accounts
+    priorityFeePercentile: 75, // Of the recent fees
+    maxPriorityFeeMicroLamports: 200000,
+    rebroadcastMs: 2000, // Time between rebroadcasts
+    maxBlockhashes: 3, // Blockhashes tried in all, the first one included
+  },
+  paper: {
+    // Virtual balances used when running with --paper
+    initialSol: 1,
+    initialBase: 0,
+    initialQuote: 100,
+    // Paper fills, ledger and market snapshots, kept apart from live ones
+    directory: "data/paper",
+  },
 };
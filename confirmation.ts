@@ -0,0 +1,92 @@
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { CandleFeed, getCandleFeed } from "./rsi";
+import { computeIndicators, Indicators } from "./indicators";
+import { checkFeedStatus } from "./guard";
+
+export type TimeframeRule = {
+  interval: string;
+  buy: string[]; // Rules that must hold on this timeframe before a BUY
+  sell: string[]; // Rules that must hold on this timeframe before a SELL
+};
+
+export type ConfirmationStatus = { ok: true } | { ok: false; reason: string };
+
+// Each rule compares the timeframe's indicators now with those one candle ago
+const rules: {
+  [name: string]: (current: Indicators, previous: Indicators) => boolean;
+} = {
+  rsiNotFalling: (current, previous) => current.rsi >= previous.rsi,
+  rsiNotRising: (current, previous) => current.rsi <= previous.rsi,
+  // Uptrend: RSI rising and above its WMA, downtrend the opposite
+  notUptrend: (current, previous) =>
+    !(current.rsi > previous.rsi && current.rsi > current.wma),
+  notDowntrend: (current, previous) =>
+    !(current.rsi < previous.rsi && current.rsi < current.wma),
+  macdBullish: (current) => current.macdHistogram > 0,
+  macdBearish: (current) => current.macdHistogram < 0,
+};
+
+// Requires higher timeframes of the same symbol to agree with a BUY or SELL
+// before trade() places it
+export class TimeframeConfirmation {
+  readonly ready: Promise<void>;
+  private feeds: { rule: TimeframeRule; feed: CandleFeed }[];
+
+  constructor(symbol: string, timeframes: TimeframeRule[]) {
+    timeframes.forEach((timeframe) =>
+      [...timeframe.buy, ...timeframe.sell].forEach((name) => {
+        if (!rules[name]) {
+          throw new Error(
+            `Unknown confirmation rule "${name}" for ${
+              timeframe.interval
+            }. Available: ${Object.keys(rules).join(", ")}`
+          );
+        }
+      })
+    );
+    this.feeds = timeframes.map((rule) => ({
+      rule,
+      feed: getCandleFeed(symbol, rule.interval),
+    }));
+    this.ready = Promise.all(this.feeds.map(({ feed }) => feed.ready)).then(
+      () => undefined
+    );
+  }
+
+  check(side: Side): ConfirmationStatus {
+    for (const { rule, feed } of this.feeds) {
+      const names = side === Side.Bid ? rule.buy : rule.sell;
+      if (names.length === 0) continue;
+
+      const feedStatus = checkFeedStatus(feed);
+      if (!feedStatus.ok) {
+        return { ok: false, reason: feedStatus.reason };
+      }
+      const candles = feed.candleSticks;
+      const current = computeIndicators(candles, feed.price);
+      const previous = computeIndicators(
+        candles.slice(0, -1),
+        candles[candles.length - 1].closePrice
+      );
+      if (isNaN(current.rsi) || isNaN(previous.rsi)) {
+        return {
+          ok: false,
+          reason: `Not enough ${rule.interval} data to confirm`,
+        };
+      }
+      for (const name of names) {
+        if (!rules[name](current, previous)) {
+          return {
+            ok: false,
+            reason: `${
+              rule.interval
+            } ${name} failed (RSI ${previous.rsi?.toFixed(
+              2
+            )} -> ${current.rsi?.toFixed(2)})`,
+          };
+        }
+      }
+    }
+    return { ok: true };
+  }
+}
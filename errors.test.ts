@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as Phoenix from "@ellipsis-labs/phoenix-sdk";
+import { SendTransactionError } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { decodeTradeError, TradeError } from "./errors";
+
+function failedSend(logs: string[]): SendTransactionError {
+  return new SendTransactionError({
+    action: "send",
+    signature: "signature",
+    transactionMessage: "Transaction simulation failed",
+    logs,
+  });
+}
+
+function programFailure(programId: string, code: number): string {
+  return `Program ${programId} failed: custom program error: 0x${code.toString(
+    16
+  )}`;
+}
+
+test("a Phoenix error code decides the kind", () => {
+  const error = decodeTradeError(
+    failedSend([
+      "Program log: Instruction: PlaceLimitOrder",
+      programFailure(Phoenix.PROGRAM_ID.toBase58(), 20),
+    ])
+  );
+  assert.equal(error.kind, "missingSeat");
+  assert.equal(error.program, "Phoenix");
+  assert.equal(error.code, 20);
+  assert.equal(error.message, "Phoenix error 20: Trader not found error");
+  assert.equal(
+    decodeTradeError(
+      failedSend([programFailure(Phoenix.PROGRAM_ID.toBase58(), 21)])
+    ).kind,
+    "missingSeat"
+  );
+});
+
+test("an SPL Token error code decides the kind", () => {
+  const error = decodeTradeError(
+    failedSend([programFailure(TOKEN_PROGRAM_ID.toBase58(), 1)])
+  );
+  assert.equal(error.kind, "insufficientFunds");
+  assert.equal(error.message, "SPL Token error 1: Insufficient funds");
+});
+
+test("without a known code the last matching log line decides", () => {
+  const error = decodeTradeError(
+    failedSend([
+      "Program log: insufficient funds",
+      "Program log: Order has expired",
+      "Program 11111111111111111111111111111111 failed: custom program error: 0x0",
+    ])
+  );
+  assert.equal(error.kind, "expiredOrder");
+  assert.equal(
+    error.message,
+    "11111111111111111111111111111111 error 0: Order has expired"
+  );
+});
+
+test("a missing seat is recognized by its exact messages only", () => {
+  assert.equal(
+    decodeTradeError(new Error("Trader state not found for wallet")).kind,
+    "missingSeat"
+  );
+  assert.equal(
+    decodeTradeError(new Error("Trader index not found for wallet")).kind,
+    "missingSeat"
+  );
+  // Mentions of seats elsewhere say nothing about this wallet's seat
+  assert.equal(
+    decodeTradeError(
+      failedSend(["Program log: Instruction: RequestSeat", "Program log: seat"])
+    ).kind,
+    "unknown"
+  );
+  assert.equal(
+    decodeTradeError(new Error("Requesting a seat timed out")).kind,
+    "unknown"
+  );
+});
+
+test("local checks are decoded from their message", () => {
+  const error = decodeTradeError(
+    new Error("Insufficient quote balance: 1, required: 2")
+  );
+  assert.equal(error.kind, "insufficientFunds");
+  assert.equal(error.program, undefined);
+  assert.equal(decodeTradeError(error), error);
+  assert.ok(error instanceof TradeError);
+});
@@ -0,0 +1,176 @@
+import * as Phoenix from "@ellipsis-labs/phoenix-sdk";
+import { SendTransactionError } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+
+export type TradeErrorKind =
+  | "insufficientFunds" // Not enough base or quote for the order
+  | "insufficientSol" // Not enough SOL to pay fees or rent
+  | "missingSeat" // The trader has no approved seat on the market
+  | "missingTokenAccount"
+  | "expiredOrder" // The order's last valid slot passed before it landed
+  | "selfTrade" // The order would have matched the trader's own order
+  | "expiredBlockhash" // The network did not take the transaction in time
+  | "unknown";
+
+export class TradeError extends Error {
+  constructor(
+    readonly kind: TradeErrorKind,
+    message: string,
+    readonly program?: string, // "Phoenix", "SPL Token" or a program id
+    readonly code?: number, // The program's custom error code
+    readonly logs: string[] = []
+  ) {
+    super(message);
+    this.name = "TradeError";
+  }
+}
+
+// SPL Token's TokenError, by custom error code
+const TOKEN_ERRORS: { [code: number]: string } = {
+  0: "Lamport balance below rent-exempt threshold",
+  1: "Insufficient funds",
+  2: "Invalid mint",
+  3: "Account not associated with this mint",
+  4: "Owner does not match",
+  5: "Fixed supply",
+  6: "Account already in use",
+  7: "Invalid number of provided signers",
+  8: "Invalid number of required signers",
+  9: "State is uninitialized",
+  10: "Instruction does not support native tokens",
+  11: "Non-native account can only be closed if its balance is zero",
+  12: "Invalid instruction",
+  13: "State is invalid for requested operation",
+  14: "Operation overflowed",
+  15: "Account does not support specified authority type",
+  16: "This token mint cannot freeze accounts",
+  17: "Account is frozen",
+  18: "The provided decimals value different from the mint decimals",
+  19: "Instruction does not support non-native tokens",
+};
+
+// Log lines and messages that identify an error regardless of the program
+// that raised it, checked in order
+const PATTERNS: { kind: TradeErrorKind; pattern: RegExp }[] = [
+  { kind: "insufficientSol", pattern: /insufficient ?funds ?for ?(fee|rent)/i },
+  { kind: "insufficientSol", pattern: /Insufficient SOL/i },
+  {
+    kind: "insufficientSol",
+    pattern:
+      /AccountNotFound|Attempt to debit an account but found no record of a prior credit/i,
+  },
+  { kind: "selfTrade", pattern: /self[- ]?trade/i },
+  {
+    kind: "expiredOrder",
+    pattern: /order (is |has )?expired|last valid (slot|unix timestamp)/i,
+  },
+  {
+    kind: "missingSeat",
+    // Our own lookups, then Phoenix's messages and names for codes 20 and 21
+    pattern:
+      /Trader (state|index) not found for |Trader not found error|Invalid seat status|\b(TraderNotFound|InvalidSeatStatus)\b/,
+  },
+  {
+    kind: "missingTokenAccount",
+    pattern:
+      /AccountNotInitialized|could not find account|invalid account data/i,
+  },
+  {
+    kind: "insufficientFunds",
+    pattern: /insufficient (funds|quote balance|base balance|lamports)/i,
+  },
+  {
+    kind: "expiredBlockhash",
+    pattern: /BlockhashNotFound|block height exceeded|not confirmed after/i,
+  },
+];
+
+function matchPatterns(text: string): TradeErrorKind | undefined {
+  return PATTERNS.find(({ pattern }) => pattern.test(text))?.kind;
+}
+
+function phoenixKind(code: number): TradeErrorKind {
+  switch (Phoenix.errorFromCode(code)?.name) {
+    case "TraderNotFound":
+    case "InvalidSeatStatus":
+      return "missingSeat";
+    case "InvalidBaseAccount":
+    case "InvalidQuoteAccount":
+      return "missingTokenAccount";
+    default:
+      return "unknown";
+  }
+}
+
+function tokenKind(code: number): TradeErrorKind {
+  if (code === 1) return "insufficientFunds";
+  if (code === 9) return "missingTokenAccount";
+  return "unknown";
+}
+
+// Turns a failed send, a failed simulation or a local check into a typed
+// error. The failing program's custom error code decides first; when it says
+// nothing specific, the program logs and the message are matched instead.
+export function decodeTradeError(error: unknown): TradeError {
+  if (error instanceof TradeError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const logs = error instanceof SendTransactionError ? error.logs ?? [] : [];
+
+  let program: string | undefined;
+  let code: number | undefined;
+  let kind: TradeErrorKind = "unknown";
+  let reason = message.split("\n")[0];
+
+  // "Program <id> failed: custom program error: 0x1"
+  const failed = logs
+    .map((log) =>
+      log.match(/^Program (\w+) failed: custom program error: 0x([0-9a-f]+)/i)
+    )
+    .find((match) => match !== null);
+  if (failed) {
+    code = parseInt(failed[2], 16);
+    if (failed[1] === Phoenix.PROGRAM_ID.toBase58()) {
+      program = "Phoenix";
+      kind = phoenixKind(code);
+      reason = Phoenix.errorFromCode(code)?.message ?? reason;
+    } else if (failed[1] === TOKEN_PROGRAM_ID.toBase58()) {
+      program = "SPL Token";
+      kind = tokenKind(code);
+      reason = TOKEN_ERRORS[code] ?? reason;
+    } else {
+      program = failed[1];
+    }
+  }
+
+  if (kind === "unknown") {
+    // The most specific line is usually the last one a program logged
+    const line = [...logs]
+      .reverse()
+      .find((log) => matchPatterns(log) !== undefined);
+    if (line) {
+      kind = matchPatterns(line)!;
+      reason = line.replace(/^Program log: /, "");
+    } else {
+      kind = matchPatterns(message) ?? "unknown";
+    }
+  }
+
+  const source = program
+    ? `${program} error${code !== undefined ? ` ${code}` : ""}: `
+    : "";
+  return new TradeError(kind, `${source}${reason}`, program, code, logs);
+}
+
+export function describeTradeError(error: TradeError): string {
+  const explanation: { [kind in TradeErrorKind]: string } = {
+    insufficientFunds: "not enough base or quote for the order",
+    insufficientSol: "not enough SOL for fees or rent",
+    missingSeat: "the wallet has no seat on the market",
+    missingTokenAccount: "a token account is missing",
+    expiredOrder: "the order expired before it landed",
+    selfTrade: "the order would have traded against the wallet's own order",
+    expiredBlockhash: "the transaction did not land in time",
+    unknown: "unrecognized error",
+  };
+  return `${explanation[error.kind]} (${error.message})`;
+}
@@ -0,0 +1,124 @@
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import * as Phoenix from "@ellipsis-labs/phoenix-sdk";
+import { MarketState, Side } from "@ellipsis-labs/phoenix-sdk";
+import {
+  getCurrentOrders,
+  getMidPriceWithout,
+  sendCancelAllOrders,
+  sendCancelOrders,
+  checkUserBalance,
+  wrapToken,
+  placeOrderWithSol,
+  placeOrderWithUSD,
+  onboardTrader,
+  sendCancelAndPlace,
+} from "./functions";
+import { OrderPlacement, UserBalance } from "./types";
+
+// Everything trade() needs from the market. The live implementation signs and
+// sends mainnet transactions, the paper one (see paper.ts) only simulates them.
+export interface Exchange {
+  getCurrentOrders(
+    marketState: MarketState,
+    traderPublicKey: PublicKey
+  ): Promise<Phoenix.L3Order[]>;
+  // The price to quote around, leaving out the trader's own orders.
+  // Undefined when there is none.
+  getMidPrice(
+    marketState: MarketState,
+    traderPublicKey: PublicKey
+  ): Promise<number | undefined>;
+  cancelAllOrders(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair
+  ): Promise<void>;
+  cancelOrders(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair,
+    orders: Phoenix.L3Order[]
+  ): Promise<void>;
+  checkUserBalance(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair
+  ): Promise<UserBalance>;
+  wrapToken(
+    connection: Connection,
+    trader: Keypair,
+    amount: number,
+    mint: PublicKey,
+    tokenName: string
+  ): Promise<void>;
+  placeOrderWithSol(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair,
+    side: Side,
+    volume: number,
+    priceInTicks: number,
+    clientOrderId?: number,
+    validSeconds?: number
+  ): Promise<void>;
+  placeOrderWithUSD(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair,
+    side: Side,
+    quoteLots: number,
+    priceInTicks: number,
+    currentPrice: number,
+    clientOrderId?: number,
+    validSeconds?: number
+  ): Promise<void>;
+  // Cancels the orders and places the new one in a single transaction
+  cancelAndPlace(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair,
+    orders: Phoenix.L3Order[],
+    placement: OrderPlacement
+  ): Promise<void>;
+  // Creates the token accounts and seat a wallet needs to trade
+  onboardTrader(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair
+  ): Promise<void>;
+  reloadMarket(connection: Connection, marketState: MarketState): Promise<void>;
+}
+
+export const liveExchange: Exchange = {
+  getCurrentOrders,
+  getMidPrice: getMidPriceWithout,
+  async cancelAllOrders(connection, marketState, trader) {
+    await sendCancelAllOrders(connection, marketState, trader);
+  },
+  async cancelOrders(connection, marketState, trader, orders) {
+    await sendCancelOrders(connection, marketState, trader, orders);
+  },
+  checkUserBalance,
+  wrapToken,
+  async placeOrderWithSol(...args) {
+    await placeOrderWithSol(...args);
+  },
+  async placeOrderWithUSD(...args) {
+    await placeOrderWithUSD(...args);
+  },
+  async cancelAndPlace(connection, marketState, trader, orders, placement) {
+    await sendCancelAndPlace(
+      connection,
+      marketState,
+      trader,
+      orders,
+      placement
+    );
+  },
+  async onboardTrader(connection, marketState, trader) {
+    await onboardTrader(connection, marketState, trader);
+  },
+  async reloadMarket(connection, marketState) {
+    await marketState.reloadFromNetwork(connection);
+  },
+};
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { ExitManager, ExitSettings } from "./exits";
+import { ManagedOrder } from "./orders";
+import { fill } from "./testing";
+
+const settings: ExitSettings = {
+  takeProfitPercentage: 2,
+  stopLossPercentage: 1,
+  trailingStopPercentage: 0,
+  stopSlippagePercentage: 0.5,
+};
+
+// A filled entry bid of 1 base at 100
+function entry(exits: ExitManager) {
+  const order = { clientOrderId: 1 } as ManagedOrder;
+  return exits.onFill(
+    fill(Side.Bid, 1, 100, { orderSequenceNumber: "5" }),
+    order
+  )!;
+}
+
+test("an entry fill places a take profit above it", () => {
+  const exits = new ExitManager(settings);
+  const plan = entry(exits);
+  const actions = exits.update(100, () => false);
+  assert.equal(actions.length, 1);
+  const [action] = actions;
+  assert.equal(action.type, "place");
+  assert.equal(action.type === "place" && action.kind, "takeProfit");
+  assert.equal(action.type === "place" && action.side, Side.Ask);
+  assert.equal(action.plan, plan);
+});
+
+test("the stop waits until the take profit is off the book", () => {
+  const exits = new ExitManager(settings);
+  const plan = entry(exits);
+  exits.recordExitOrder(plan, "takeProfit", 2);
+
+  // The take profit is still working: only its cancel goes out
+  let working = true;
+  const isWorking = () => working;
+  assert.deepEqual(
+    exits.update(98.9, isWorking).map((action) => action.type),
+    ["cancel"]
+  );
+  // The cancel did not land yet, so still no stop
+  assert.deepEqual(
+    exits.update(98.9, isWorking).map((action) => action.type),
+    ["cancel"]
+  );
+
+  working = false;
+  const actions = exits.update(98.9, isWorking);
+  assert.equal(actions.length, 1);
+  assert.equal(actions[0].type === "place" && actions[0].kind, "stopLoss");
+});
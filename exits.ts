@@ -0,0 +1,206 @@
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { config } from "./config";
+import { TradeEvent } from "./fills";
+import { ManagedOrder } from "./orders";
+
+export type ExitSettings = {
+  takeProfitPercentage: number; // 0 disables take-profit orders
+  stopLossPercentage: number; // 0 disables the stop
+  trailingStopPercentage: number; // 0 keeps the stop where it started
+  stopSlippagePercentage: number; // How far past the price stop orders reach
+};
+
+export type ExitKind = "takeProfit" | "stopLoss";
+
+// The exit attached to one filled entry
+export type ExitPlan = {
+  entryId: string; // Links every exit order back to the entry fill
+  entrySide: Side;
+  entryPrice: number;
+  size: number; // Base units still to close
+  takeProfitPrice?: number;
+  stopPrice?: number;
+  bestPrice: number; // Most favourable price seen, for the trailing stop
+  stopTriggered: boolean;
+  exitClientOrderId?: number; // The exit order currently working
+  exitKind?: ExitKind;
+  openedAt: number;
+  closedAt?: number;
+  closeReason?: string;
+};
+
+export type ExitAction =
+  | { type: "cancel"; plan: ExitPlan; clientOrderId: number }
+  | {
+      type: "place";
+      plan: ExitPlan;
+      kind: ExitKind;
+      side: Side;
+      price: number;
+      size: number; // In base units
+    };
+
+function direction(plan: ExitPlan): number {
+  return plan.entrySide === Side.Bid ? 1 : -1;
+}
+
+export function describeExit(plan: ExitPlan): string {
+  const format = (price?: number) =>
+    price === undefined ? "none" : price.toFixed(4);
+  return `entry ${plan.entryId} ${Side[plan.entrySide]} ${plan.size.toFixed(
+    6
+  )} @ ${plan.entryPrice.toFixed(4)}, take profit: ${format(
+    plan.takeProfitPrice
+  )}, stop: ${format(plan.stopPrice)}${
+    plan.stopTriggered ? " (triggered)" : ""
+  }`;
+}
+
+// Attaches a take-profit order and a watched stop to every entry fill of one
+// wallet on one market. The take-profit rests on the book until it fills or
+// the stop goes off; the stop is only a price level until the market crosses
+// it, at which point the take-profit is cancelled and, once it is gone from
+// the book, a marketable order closes what is left.
+export class ExitManager {
+  private plans: ExitPlan[] = [];
+  private exitOrders = new Map<number, string>(); // Client order id -> entry
+
+  constructor(private settings: ExitSettings = config.exits) {}
+
+  get enabled(): boolean {
+    return (
+      this.settings.takeProfitPercentage > 0 ||
+      this.settings.stopLossPercentage > 0
+    );
+  }
+
+  // Opens a plan for an entry fill, or closes part of one for an exit fill.
+  // `order` is the managed order the fill belongs to, if it is known.
+  onFill(fill: TradeEvent, order?: ManagedOrder): ExitPlan | undefined {
+    const clientOrderId = order?.clientOrderId ?? fill.clientOrderId;
+    const exitFor =
+      clientOrderId !== undefined
+        ? this.exitOrders.get(clientOrderId)
+        : undefined;
+    if (exitFor !== undefined) {
+      const plan = this.plans.find((plan) => plan.entryId === exitFor);
+      if (!plan || plan.closedAt) return undefined;
+      plan.size = Math.max(0, plan.size - fill.size);
+      if (plan.size <= 1e-9) {
+        this.close(plan, `${plan.exitKind} filled @ ${fill.price}`);
+      }
+      return plan;
+    }
+
+    // Orders found on the book at startup have no known purpose
+    if (!this.enabled || !order || order.clientOrderId === 0) return undefined;
+
+    const { takeProfitPercentage, stopLossPercentage } = this.settings;
+    const sign = fill.side === Side.Bid ? 1 : -1;
+    const plan: ExitPlan = {
+      entryId: `${fill.signature}:${fill.orderSequenceNumber ?? clientOrderId}`,
+      entrySide: fill.side,
+      entryPrice: fill.price,
+      size: fill.size,
+      takeProfitPrice: takeProfitPercentage
+        ? fill.price * (1 + (sign * takeProfitPercentage) / 100)
+        : undefined,
+      stopPrice: stopLossPercentage
+        ? fill.price * (1 - (sign * stopLossPercentage) / 100)
+        : undefined,
+      bestPrice: fill.price,
+      stopTriggered: false,
+      openedAt: fill.timestamp,
+    };
+    this.plans.push(plan);
+    return plan;
+  }
+
+  // Trails the stop, triggers it when crossed and returns what has to be sent.
+  // `isWorking` tells whether an exit order may still fill.
+  update(
+    currentPrice: number,
+    isWorking: (clientOrderId: number) => boolean
+  ): ExitAction[] {
+    const actions: ExitAction[] = [];
+    const { trailingStopPercentage, stopSlippagePercentage } = this.settings;
+
+    this.openPlans().forEach((plan) => {
+      const sign = direction(plan);
+      const working =
+        plan.exitClientOrderId !== undefined &&
+        isWorking(plan.exitClientOrderId);
+
+      if (sign * (currentPrice - plan.bestPrice) > 0) {
+        plan.bestPrice = currentPrice;
+      }
+      if (plan.stopPrice !== undefined && trailingStopPercentage > 0) {
+        const trailed =
+          plan.bestPrice * (1 - (sign * trailingStopPercentage) / 100);
+        if (sign * (trailed - plan.stopPrice) > 0) plan.stopPrice = trailed;
+      }
+
+      if (
+        !plan.stopTriggered &&
+        plan.stopPrice !== undefined &&
+        sign * (currentPrice - plan.stopPrice) <= 0
+      ) {
+        plan.stopTriggered = true;
+      }
+
+      if (plan.stopTriggered) {
+        // With the take-profit still on the book both exits could fill and
+        // close the position twice, so the stop waits until it is gone
+        if (working && plan.exitKind === "takeProfit") {
+          actions.push({
+            type: "cancel",
+            plan,
+            clientOrderId: plan.exitClientOrderId!,
+          });
+          return;
+        }
+        if (working && plan.exitKind === "stopLoss") return;
+        actions.push({
+          type: "place",
+          plan,
+          kind: "stopLoss",
+          side: plan.entrySide === Side.Bid ? Side.Ask : Side.Bid,
+          price: currentPrice * (1 - (sign * stopSlippagePercentage) / 100),
+          size: plan.size,
+        });
+        return;
+      }
+
+      if (plan.takeProfitPrice !== undefined && !working) {
+        actions.push({
+          type: "place",
+          plan,
+          kind: "takeProfit",
+          side: plan.entrySide === Side.Bid ? Side.Ask : Side.Bid,
+          price: plan.takeProfitPrice,
+          size: plan.size,
+        });
+      }
+    });
+    return actions;
+  }
+
+  recordExitOrder(plan: ExitPlan, kind: ExitKind, clientOrderId: number) {
+    plan.exitClientOrderId = clientOrderId;
+    plan.exitKind = kind;
+    this.exitOrders.set(clientOrderId, plan.entryId);
+  }
+
+  close(plan: ExitPlan, reason: string, now: number = Date.now()) {
+    plan.closedAt = now;
+    plan.closeReason = reason;
+  }
+
+  openPlans(): ExitPlan[] {
+    return this.plans.filter((plan) => plan.closedAt === undefined);
+  }
+
+  history(): ExitPlan[] {
+    return [...this.plans];
+  }
+}
@@ -0,0 +1,306 @@
+import path from "path";
+import { EventEmitter } from "events";
+import {
+  Connection,
+  ConfirmedSignatureInfo,
+  ParsedTransactionWithMeta,
+} from "@solana/web3.js";
+import BN from "bn.js";
+import {
+  getPhoenixEventsFromTransactionData,
+  getUiOrderSequenceNumber,
+  MarketState,
+  Side,
+  toBN,
+  toNum,
+} from "@ellipsis-labs/phoenix-sdk";
+import { config } from "./config";
+import { appendJsonl, readJsonl } from "./jsonl";
+
+export type TradeEventKind = "fill" | "reduce" | "evict" | "expire";
+
+export type TradeEvent = {
+  kind: TradeEventKind;
+  market: string;
+  trader: string;
+  signature: string;
+  slot: number;
+  timestamp: number; // Block time in milliseconds
+  side: Side;
+  role?: "maker" | "taker"; // Fills only
+  orderSequenceNumber?: string; // Same numbering as L3Order, unset for taker fills
+  clientOrderId?: number; // Taker fills only
+  price: number;
+  size: number; // Base units filled or removed from the book
+  fee: number; // In quote units
+};
+
+export type TradeEventInput = Omit<TradeEvent, "market">;
+
+const TRANSACTIONS_PER_REQUEST = 20;
+
+function fillStorePath(marketName: string, directory: string): string {
+  return path.join(
+    directory,
+    `${marketName.replace(/[^a-zA-Z0-9]/g, "-")}.jsonl`
+  );
+}
+
+export function loadTradeEvents(
+  marketName: string,
+  directory: string = config.fills.directory
+): TradeEvent[] {
+  return readJsonl<TradeEvent>(fillStorePath(marketName, directory)).sort(
+    (a, b) => a.timestamp - b.timestamp
+  );
+}
+
+function appendTradeEvents(
+  marketName: string,
+  directory: string,
+  events: TradeEvent[]
+) {
+  try {
+    appendJsonl(fillStorePath(marketName, directory), events);
+  } catch (error) {
+    console.error(`Failed to store ${marketName} fills:`, error);
+  }
+}
+
+// Bid order ids are stored bitwise inverted on chain, which sets the top bit
+export function sideFromOrderId(orderSequenceNumber: BN): Side {
+  return orderSequenceNumber.fromTwos(64).isNeg() ? Side.Bid : Side.Ask;
+}
+
+// The numbering getCurrentOrders gives book orders, so fills match them
+export function uiOrderSequenceNumber(orderSequenceNumber: BN): string {
+  return getUiOrderSequenceNumber({
+    priceInTicks: 0, // Not used for the conversion
+    orderSequenceNumber,
+  }).toString();
+}
+
+// Follows the Phoenix market for the fills, reduces, evictions and expiries
+// of the given traders. Every event is saved to the fills directory and emitted under
+// its kind ("fill", "reduce", "evict" or "expire") on the events emitter, so
+// the rest of the bot can subscribe without knowing where events come from.
+// Activity while the bot was offline is not recovered.
+export class FillTracker {
+  readonly events = new EventEmitter();
+  private traders = new Set<string>();
+  private lastSignature?: string;
+  private running = false;
+
+  constructor(
+    private connection: Connection,
+    private marketState: MarketState,
+    readonly marketName: string,
+    private directory: string = config.fills.directory
+  ) {}
+
+  addTrader(trader: string) {
+    this.traders.add(trader);
+  }
+
+  // Starts polling the chain. Paper trading records its simulated fills
+  // through record() instead.
+  async start() {
+    if (this.running) return;
+    this.running = true;
+    const [latest] = await this.connection.getSignaturesForAddress(
+      this.marketState.address,
+      { limit: 1 },
+      "confirmed"
+    );
+    this.lastSignature = latest?.signature;
+    this.poll();
+  }
+
+  record(input: TradeEventInput) {
+    const event: TradeEvent = { ...input, market: this.marketName };
+    appendTradeEvents(this.marketName, this.directory, [event]);
+    this.events.emit(event.kind, event);
+  }
+
+  history(trader?: string): TradeEvent[] {
+    return loadTradeEvents(this.marketName, this.directory).filter(
+      (event) => !trader || event.trader === trader
+    );
+  }
+
+  private async poll() {
+    while (this.running) {
+      try {
+        const signatures = await this.fetchNewSignatures();
+        for (let i = 0; i < signatures.length; i += TRANSACTIONS_PER_REQUEST) {
+          const batch = signatures.slice(i, i + TRANSACTIONS_PER_REQUEST);
+          const transactions = await this.connection.getParsedTransactions(
+            batch.map(({ signature }) => signature),
+            { commitment: "confirmed", maxSupportedTransactionVersion: 0 }
+          );
+          transactions.forEach((transaction, index) => {
+            if (!transaction) return;
+            this.parseTransaction(batch[index].signature, transaction).forEach(
+              (event) => this.record(event)
+            );
+          });
+        }
+      } catch (error) {
+        console.error(
+          `Error polling ${this.marketName} fills:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, config.fills.pollSeconds * 1000)
+      );
+    }
+  }
+
+  // Signatures since the last poll, oldest first and without failed ones
+  private async fetchNewSignatures(): Promise<ConfirmedSignatureInfo[]> {
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    while (signatures.length < config.fills.maxSignaturesPerPoll) {
+      const page = await this.connection.getSignaturesForAddress(
+        this.marketState.address,
+        { before, until: this.lastSignature, limit: 1000 },
+        "confirmed"
+      );
+      signatures.push(...page);
+      if (page.length < 1000) break;
+      before = page[page.length - 1].signature;
+    }
+    if (signatures.length >= config.fills.maxSignaturesPerPoll) {
+      console.warn(
+        `More than ${config.fills.maxSignaturesPerPoll} new ${this.marketName} transactions, older ones are skipped.`
+      );
+      signatures.length = config.fills.maxSignaturesPerPoll;
+    }
+    if (signatures.length > 0) this.lastSignature = signatures[0].signature;
+    return signatures.filter((signature) => !signature.err).reverse();
+  }
+
+  private parseTransaction(
+    signature: string,
+    transaction: ParsedTransactionWithMeta
+  ): TradeEventInput[] {
+    const marketState = this.marketState;
+    const result: TradeEventInput[] = [];
+    const { instructions } = getPhoenixEventsFromTransactionData(transaction);
+
+    instructions.forEach(({ header, events }) => {
+      if (!header.market.equals(marketState.address)) return;
+      const signer = header.signer.toString();
+      const base = {
+        signature,
+        slot: toNum(header.slot),
+        timestamp: toNum(header.timestamp) * 1000,
+      };
+      let takerSide: Side | undefined;
+
+      events.forEach((event) => {
+        switch (event.__kind) {
+          case "Fill": {
+            const fill = event.fields[0];
+            const orderId = toBN(fill.orderSequenceNumber);
+            // The taker trades against the maker's side
+            takerSide =
+              sideFromOrderId(orderId) === Side.Bid ? Side.Ask : Side.Bid;
+            const maker = fill.makerId.toString();
+            if (!this.traders.has(maker)) return;
+            result.push({
+              ...base,
+              kind: "fill",
+              trader: maker,
+              side: sideFromOrderId(orderId),
+              role: "maker",
+              orderSequenceNumber: uiOrderSequenceNumber(orderId),
+              price: marketState.ticksToFloatPrice(toNum(fill.priceInTicks)),
+              size: marketState.baseLotsToRawBaseUnits(
+                toNum(fill.baseLotsFilled)
+              ),
+              fee: 0,
+            });
+            return;
+          }
+          case "FillSummary": {
+            const summary = event.fields[0];
+            const baseLots = toNum(summary.totalBaseLotsFilled);
+            if (!this.traders.has(signer) || baseLots === 0) return;
+            if (takerSide === undefined) return;
+            const size = marketState.baseLotsToRawBaseUnits(baseLots);
+            result.push({
+              ...base,
+              kind: "fill",
+              trader: signer,
+              side: takerSide,
+              role: "taker",
+              clientOrderId: toNum(summary.clientOrderId),
+              price:
+                marketState.quoteLotsToQuoteUnits(
+                  toNum(summary.totalQuoteLotsFilled)
+                ) / size,
+              size,
+              fee: marketState.quoteLotsToQuoteUnits(
+                toNum(summary.totalFeeInQuoteLots)
+              ),
+            });
+            return;
+          }
+          case "Reduce": {
+            // Only the order's owner can reduce it
+            const reduce = event.fields[0];
+            if (!this.traders.has(signer)) return;
+            const orderId = toBN(reduce.orderSequenceNumber);
+            result.push({
+              ...base,
+              kind: "reduce",
+              trader: signer,
+              side: sideFromOrderId(orderId),
+              orderSequenceNumber: uiOrderSequenceNumber(orderId),
+              price: marketState.ticksToFloatPrice(toNum(reduce.priceInTicks)),
+              size: marketState.baseLotsToRawBaseUnits(
+                toNum(reduce.baseLotsRemoved)
+              ),
+              fee: 0,
+            });
+            return;
+          }
+          case "Evict":
+          case "ExpiredOrder": {
+            const removed = event.fields[0];
+            const maker = removed.makerId.toString();
+            if (!this.traders.has(maker)) return;
+            const orderId = toBN(removed.orderSequenceNumber);
+            const baseLots =
+              "baseLotsEvicted" in removed
+                ? removed.baseLotsEvicted
+                : removed.baseLotsRemoved;
+            result.push({
+              ...base,
+              kind: event.__kind === "Evict" ? "evict" : "expire",
+              trader: maker,
+              side: sideFromOrderId(orderId),
+              orderSequenceNumber: uiOrderSequenceNumber(orderId),
+              price: marketState.ticksToFloatPrice(toNum(removed.priceInTicks)),
+              size: marketState.baseLotsToRawBaseUnits(toNum(baseLots)),
+              fee: 0,
+            });
+            return;
+          }
+        }
+      });
+    });
+    return result;
+  }
+}
+
+export function describeTradeEvent(event: TradeEvent): string {
+  const role = event.role ? ` (${event.role})` : "";
+  return `${event.kind}${role}: ${Side[event.side]} ${event.size} @ ${
+    event.price
+  }, fee: ${event.fee}, order: ${
+    event.orderSequenceNumber ?? event.clientOrderId
+  }`;
+}
@@ -4,10 +4,8 @@ import {
   Transaction,
   Keypair,
   TransactionInstruction,
-  sendAndConfirmTransaction,
   SystemProgram,
   SendTransactionError,
-  ComputeBudgetProgram,
 } from "@solana/web3.js";
 import * as Phoenix from "@ellipsis-labs/phoenix-sdk";
 import { MarketState, Side } from "@ellipsis-labs/phoenix-sdk";
@@ -23,6 +21,14 @@ import {
   createCancelMultipleOrdersByIdInstruction,
 } from "@ellipsis-labs/phoenix-sdk";
 import { toBN, toNum } from "@ellipsis-labs/phoenix-sdk";
+import { OrderPlacement, UserBalance } from "./types";
+import { config } from "./config";
+import {
+  describeSendResult,
+  fitsInTransaction,
+  SendResult,
+  sendTransaction,
+} from "./sender";
 
 export async function createPhoenixClient(
   connection: Connection
@@ -55,8 +61,15 @@ export async function cancelAllOrders(
   if (currentOrders.length === 0) {
     throw new Error("No open orders to cancel");
   }
+  return cancelOrders(marketState, traderPublicKey, currentOrders);
+}
 
-  const cancelParams = currentOrders.map((order) =>
+export function cancelOrders(
+  marketState: MarketState,
+  traderPublicKey: PublicKey,
+  orders: Phoenix.L3Order[]
+): TransactionInstruction {
+  const cancelParams = orders.map((order) =>
     getCancelOrderParamsFromL3Order(order)
   );
 
@@ -78,6 +91,106 @@ export async function cancelAllOrders(
   );
 }
 
+export async function sendCancelAllOrders(
+  connection: Connection,
+  marketState: MarketState,
+  trader: Keypair
+): Promise<SendResult> {
+  const cancelAllOrdersTx = await cancelAllOrders(
+    marketState,
+    trader.publicKey
+  );
+  return await sendTransaction(connection, [cancelAllOrdersTx], [trader]);
+}
+
+export async function sendCancelOrders(
+  connection: Connection,
+  marketState: MarketState,
+  trader: Keypair,
+  orders: Phoenix.L3Order[]
+): Promise<SendResult> {
+  return await sendTransaction(
+    connection,
+    [cancelOrders(marketState, trader.publicKey, orders)],
+    [trader]
+  );
+}
+
+// Gets a wallet ready to trade on the market: creates its base and quote
+// token accounts and, when it has no seat, claims one through the seat
+// manager (request and approval in one) on permissionless markets or requests
+// one from the market authority otherwise. Then waits until the trader shows
+// up in the market's trader state.
+export async function onboardTrader(
+  connection: Connection,
+  marketState: MarketState,
+  trader: Keypair,
+  timeoutSeconds: number = config.onboarding.timeoutSeconds
+): Promise<void> {
+  const traderPublicKey = trader.publicKey;
+  if (marketState.data.traders.has(traderPublicKey.toString())) return;
+
+  const instructions: TransactionInstruction[] = [];
+  for (const mint of [
+    marketState.data.header.baseParams.mintKey,
+    marketState.data.header.quoteParams.mintKey,
+  ]) {
+    instructions.push(
+      ...(await Phoenix.getCreateTokenAccountInstructions(
+        connection,
+        traderPublicKey,
+        traderPublicKey,
+        mint
+      ))
+    );
+  }
+
+  const seat = await connection.getAccountInfo(
+    marketState.getSeatAddress(traderPublicKey),
+    "confirmed"
+  );
+  if (!seat) {
+    const permissionless = marketState.data.header.authority.equals(
+      Phoenix.getSeatManagerAddress(marketState.address)
+    );
+    if (permissionless) {
+      // Evicts an idle trader first when every seat is taken
+      instructions.push(
+        ...(await Phoenix.confirmOrCreateClaimSeatIxs(
+          connection,
+          marketState,
+          traderPublicKey
+        ))
+      );
+    } else {
+      console.log("Requesting a seat, the market authority has to approve it.");
+      instructions.push(
+        marketState.createRequestSeatInstruction(
+          traderPublicKey,
+          traderPublicKey
+        )
+      );
+    }
+  }
+
+  if (instructions.length > 0) {
+    const result = await sendTransaction(connection, instructions, [trader]);
+    console.log("Trader onboarded:", describeSendResult(result));
+  }
+
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  while (true) {
+    await marketState.reloadFromNetwork(connection);
+    if (marketState.data.traders.has(traderPublicKey.toString())) return;
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `Trader state not found for ${traderPublicKey.toString()} ${timeoutSeconds}s after requesting a seat`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  }
+}
+
 export async function getCurrentPrice(
   marketState: MarketState
 ): Promise<number> {
@@ -87,6 +200,34 @@ export async function getCurrentPrice(
   return (bestBid.price + bestAsk.price) / 2;
 }
 
+// The book mid without the trader's own orders, so quotes skewed off the mid
+// do not move it themselves. Undefined while a side has no other orders.
+export async function getMidPriceWithout(
+  marketState: MarketState,
+  traderPublicKey: PublicKey
+): Promise<number | undefined> {
+  const traderIndex = marketState.data.traderPubkeyToTraderIndex.get(
+    traderPublicKey.toString()
+  );
+  const otherPrices = (book: [Phoenix.OrderId, Phoenix.RestingOrder][]) =>
+    book
+      .filter(
+        ([, order]) =>
+          traderIndex === undefined ||
+          order.traderIndex.toString() !== traderIndex.toString()
+      )
+      .map(([orderId]) => toNum(orderId.priceInTicks));
+  const bids = otherPrices(marketState.data.bids);
+  const asks = otherPrices(marketState.data.asks);
+  if (bids.length === 0 || asks.length === 0) return undefined;
+  return marketState.ticksToFloatPrice(
+    (Math.max(...bids) + Math.min(...asks)) / 2
+  );
+}
+
+// Sequence numbers are in the SDK's UI form, the one fill events are decoded
+// to and getCancelOrderParamsFromL3Order expects. The book keeps bid ids
+// bitwise inverted.
 export async function getCurrentOrders(
   marketState: MarketState,
   traderPublicKey: PublicKey
@@ -109,7 +250,7 @@ export async function getCurrentOrders(
         side: Phoenix.Side.Bid,
         sizeInBaseLots: toBN(order.numBaseLots),
         makerPubkey: traderPublicKey.toString(),
-        orderSequenceNumber: toBN(orderId.orderSequenceNumber),
+        orderSequenceNumber: Phoenix.getUiOrderSequenceNumber(orderId),
         lastValidSlot: toBN(order.lastValidSlot),
         lastValidUnixTimestampInSeconds: toBN(
           order.lastValidUnixTimestampInSeconds
@@ -125,7 +266,7 @@ export async function getCurrentOrders(
         side: Phoenix.Side.Ask,
         sizeInBaseLots: toBN(order.numBaseLots),
         makerPubkey: traderPublicKey.toString(),
-        orderSequenceNumber: toBN(orderId.orderSequenceNumber),
+        orderSequenceNumber: Phoenix.getUiOrderSequenceNumber(orderId),
         lastValidSlot: toBN(order.lastValidSlot),
         lastValidUnixTimestampInSeconds: toBN(
           order.lastValidUnixTimestampInSeconds
@@ -143,15 +284,7 @@ export async function checkUserBalance(
   connection: Connection,
   marketState: MarketState,
   trader: Keypair
-): Promise<{
-  solBalance: number;
-  baseWalletBalance: number;
-  quoteWalletBalance: number;
-  baseOpenOrdersBalance: number;
-  quoteOpenOrdersBalance: number;
-  totalBaseBalance: number;
-  totalQuoteBalance: number;
-}> {
+): Promise<UserBalance> {
   const traderPublicKey = trader.publicKey;
   const baseMint = marketState.data.header.baseParams.mintKey;
   const quoteMint = marketState.data.header.quoteParams.mintKey;
@@ -202,15 +335,10 @@ export async function checkUserBalance(
   }
 
   if (transaction.instructions.length > 0) {
-    try {
-      const { blockhash, lastValidBlockHeight } =
-        await connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.lastValidBlockHeight = lastValidBlockHeight;
-      await sendAndConfirmTransaction(connection, transaction, [trader]);
-    } catch (error: any) {
-      throw error;
-    }
+    const result = await sendTransaction(connection, transaction.instructions, [
+      trader,
+    ]);
+    console.log("Token accounts created:", describeSendResult(result));
   }
 
   const baseBalanceValue = await connection.getTokenAccountBalance(baseAccount);
@@ -338,18 +466,13 @@ export async function wrapToken(
   }
 
   try {
-    const { blockhash, lastValidBlockHeight } =
-      await connection.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.lastValidBlockHeight = lastValidBlockHeight + 150;
-    transaction.feePayer = traderPublicKey;
-
-    await sendAndConfirmTransaction(connection, transaction, [trader], {
-      skipPreflight: true,
-      commitment: "confirmed",
-    });
-
-    console.log(`${amount} ${tokenName} has been added to your wallet.`);
+    const result = await sendTransaction(connection, transaction.instructions, [
+      trader,
+    ]);
+    console.log(
+      `${amount} ${tokenName} has been added to your wallet:`,
+      describeSendResult(result)
+    );
   } catch (error) {
     if (error instanceof SendTransactionError) {
       console.error("SendTransactionError:", error.message);
@@ -361,14 +484,30 @@ export async function wrapToken(
   }
 }
 
-export async function placeOrderWithSol(
+// Average slot time, to turn an order's lifetime into a last valid slot
+const SLOT_SECONDS = 0.4;
+
+// The slot an order valid for `validSeconds` expires at, undefined for orders
+// that rest until canceled
+async function lastValidSlotAfter(
+  connection: Connection,
+  validSeconds: number | undefined
+): Promise<number | undefined> {
+  if (validSeconds === undefined) return undefined;
+  return (await connection.getSlot()) + Math.ceil(validSeconds / SLOT_SECONDS);
+}
+
+// Wraps the SOL the order needs and places it, without sending anything
+export async function placeOrderWithSolInstructions(
   connection: Connection,
   marketState: MarketState,
   trader: Keypair,
   side: Side,
   volume: number,
-  priceInTicks: number
-): Promise<void> {
+  priceInTicks: number,
+  clientOrderId: number = 0,
+  validSeconds?: number
+): Promise<TransactionInstruction[]> {
   const wsolMint = new PublicKey("So11111111111111111111111111111111111111112");
   const tokenAccount = getAssociatedTokenAddressSync(
     wsolMint,
@@ -379,7 +518,6 @@ export async function placeOrderWithSol(
   );
 
   const transaction = new Transaction();
-  transaction.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 500000 }));
 
   const tokenAccountInfo = await connection.getAccountInfo(tokenAccount);
   if (!tokenAccountInfo) {
@@ -417,9 +555,9 @@ export async function placeOrderWithSol(
     numBaseLots: volume,
     selfTradeBehavior: Phoenix.SelfTradeBehavior.DecrementTake,
     matchLimit: undefined,
-    clientOrderId: 0,
+    clientOrderId,
     useOnlyDepositedFunds: false,
-    lastValidSlot: (await connection.getSlot()) + 150,
+    lastValidSlot: await lastValidSlotAfter(connection, validSeconds),
     lastValidUnixTimestampInSeconds: undefined,
     failSilientlyOnInsufficientFunds: false,
   });
@@ -429,28 +567,45 @@ export async function placeOrderWithSol(
     trader.publicKey
   );
   transaction.add(orderInstruction);
+  return transaction.instructions;
+}
 
-  const txid = await sendAndConfirmTransaction(
+export async function placeOrderWithSol(
+  connection: Connection,
+  marketState: MarketState,
+  trader: Keypair,
+  side: Side,
+  volume: number,
+  priceInTicks: number,
+  clientOrderId: number = 0,
+  validSeconds?: number
+): Promise<SendResult> {
+  const instructions = await placeOrderWithSolInstructions(
     connection,
-    transaction,
-    [trader],
-    {
-      commitment: "confirmed",
-      preflightCommitment: "confirmed",
-    }
+    marketState,
+    trader,
+    side,
+    volume,
+    priceInTicks,
+    clientOrderId,
+    validSeconds
   );
-  console.log("Order placed successfully. Txid:", txid);
+  const result = await sendTransaction(connection, instructions, [trader]);
+  console.log("Order placed successfully:", describeSendResult(result));
+  return result;
 }
 
-export async function placeOrderWithUSD(
+export async function placeOrderWithUSDInstructions(
   connection: Connection,
   marketState: MarketState,
   trader: Keypair,
   side: Side,
   quoteLots: number,
   priceInTicks: number,
-  currentPrice: number
-): Promise<void> {
+  currentPrice: number,
+  clientOrderId: number = 0,
+  validSeconds?: number
+): Promise<TransactionInstruction[]> {
   const quoteUnits = quoteLots * Number(marketState.data.header.quoteLotSize);
   const quoteAmount =
     quoteUnits / 10 ** marketState.data.header.quoteParams.decimals;
@@ -467,46 +622,113 @@ export async function placeOrderWithUSD(
     numBaseLots: baseLots,
     selfTradeBehavior: Phoenix.SelfTradeBehavior.DecrementTake,
     matchLimit: undefined,
-    clientOrderId: 0,
+    clientOrderId,
     useOnlyDepositedFunds: false,
-    lastValidSlot: (await connection.getSlot()) + 100,
+    lastValidSlot: await lastValidSlotAfter(connection, validSeconds),
     lastValidUnixTimestampInSeconds: undefined,
     failSilientlyOnInsufficientFunds: false,
   });
 
-  const orderIx = marketState.createPlaceLimitOrderInstruction(
-    orderPacket,
-    trader.publicKey
-  );
-
-  const { blockhash, lastValidBlockHeight } =
-    await connection.getLatestBlockhash();
-  const transaction = new Transaction({
-    blockhash,
-    lastValidBlockHeight,
-    feePayer: trader.publicKey,
-  });
+  return [
+    marketState.createPlaceLimitOrderInstruction(orderPacket, trader.publicKey),
+  ];
+}
 
-  transaction.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 500000 }));
-  transaction.add(orderIx);
+export async function placeOrderWithUSD(
+  connection: Connection,
+  marketState: MarketState,
+  trader: Keypair,
+  side: Side,
+  quoteLots: number,
+  priceInTicks: number,
+  currentPrice: number,
+  clientOrderId: number = 0,
+  validSeconds?: number
+): Promise<SendResult> {
+  const instructions = await placeOrderWithUSDInstructions(
+    connection,
+    marketState,
+    trader,
+    side,
+    quoteLots,
+    priceInTicks,
+    currentPrice,
+    clientOrderId,
+    validSeconds
+  );
 
   try {
-    const txid = await sendAndConfirmTransaction(
-      connection,
-      transaction,
-      [trader],
-      {
-        commitment: "confirmed",
-        preflightCommitment: "confirmed",
-      }
-    );
-    console.log("USD order placed successfully. Transaction ID:", txid);
+    const result = await sendTransaction(connection, instructions, [trader]);
+    console.log("USD order placed successfully:", describeSendResult(result));
+    return result;
   } catch (error) {
     console.error("Error sending USD order transaction:", error);
     throw error;
   }
 }
 
+// Cancels the orders and places the new one in a single transaction, so the
+// wallet is never without a quote nor quoting twice. Only when the bundle is
+// too large for one transaction are they sent one after the other.
+export async function sendCancelAndPlace(
+  connection: Connection,
+  marketState: MarketState,
+  trader: Keypair,
+  orders: Phoenix.L3Order[],
+  placement: OrderPlacement
+): Promise<SendResult[]> {
+  const cancelInstructions =
+    orders.length > 0
+      ? [cancelOrders(marketState, trader.publicKey, orders)]
+      : [];
+  const placeInstructions =
+    placement.kind === "sol"
+      ? await placeOrderWithSolInstructions(
+          connection,
+          marketState,
+          trader,
+          placement.side,
+          placement.volume,
+          placement.priceInTicks,
+          placement.clientOrderId,
+          placement.validSeconds
+        )
+      : await placeOrderWithUSDInstructions(
+          connection,
+          marketState,
+          trader,
+          placement.side,
+          placement.quoteLots,
+          placement.priceInTicks,
+          placement.currentPrice,
+          placement.clientOrderId,
+          placement.validSeconds
+        );
+
+  const bundle = [...cancelInstructions, ...placeInstructions];
+  if (fitsInTransaction(trader.publicKey, bundle)) {
+    const result = await sendTransaction(connection, bundle, [trader]);
+    console.log(
+      "Orders replaced in one transaction:",
+      describeSendResult(result)
+    );
+    return [result];
+  }
+
+  console.log(
+    "Cancel and place do not fit in one transaction, sending separately."
+  );
+  const results: SendResult[] = [];
+  if (cancelInstructions.length > 0) {
+    results.push(
+      await sendTransaction(connection, cancelInstructions, [trader])
+    );
+  }
+  results.push(await sendTransaction(connection, placeInstructions, [trader]));
+  console.log("Orders replaced:", results.map(describeSendResult).join(", "));
+  return results;
+}
+
 export function calculateMinimumOrderVolume(
   marketState: MarketState,
   currentPrice: number
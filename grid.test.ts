@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { GridManager, GridSettings, gridPrices, gridVolumes } from "./grid";
+import { TradeEvent } from "./fills";
+import { fill, near } from "./testing";
+
+const settings: GridSettings = {
+  levels: 2,
+  sides: "both",
+  spacing: "linear",
+  stepPercentage: 1,
+  sizes: [],
+};
+
+// A taker fill of a grid level bid at 100
+function levelFill(clientOrderId: number, size: number): TradeEvent {
+  return fill(Side.Bid, size, 100, {
+    role: "taker",
+    orderSequenceNumber: undefined,
+    clientOrderId,
+  });
+}
+
+test("prices step linearly or geometrically around the center", () => {
+  gridPrices(100, settings).forEach((price, index) =>
+    near(price, [98, 99, 100, 101, 102][index])
+  );
+  gridPrices(100, { ...settings, spacing: "geometric" }).forEach(
+    (price, index) => near(price, [98.01, 99, 100, 101, 102.01][index])
+  );
+});
+
+test("volume is split over the levels by their relative sizes", () => {
+  assert.deepEqual(gridVolumes(30, { ...settings, levels: 3 }), [10, 10, 10]);
+  assert.deepEqual(gridVolumes(30, { ...settings, sizes: [1, 2] }), [10, 20]);
+});
+
+test("buy levels sit below the center and sell levels above it", () => {
+  const grid = new GridManager(settings);
+  const levels = grid.build(100, 10);
+  assert.deepEqual(
+    levels.map((level) => level.side),
+    [Side.Bid, Side.Bid, undefined, Side.Ask, Side.Ask]
+  );
+  near(levels[0].size, 5 / 98);
+
+  const buyOnly = new GridManager({ ...settings, sides: "buy" }).build(100, 10);
+  assert.deepEqual(
+    buyOnly.map((level) => level.side),
+    [Side.Bid, Side.Bid, undefined, undefined, undefined]
+  );
+});
+
+test("a filled buy level hands a sell to the level above it", () => {
+  const grid = new GridManager(settings);
+  grid.build(100, 10);
+  const level = grid.levels[1];
+  grid.recordOrder(level, 7);
+
+  // A partial fill keeps the level's order working
+  grid.onFill(levelFill(7, grid.remaining(level) / 2));
+  assert.equal(level.side, Side.Bid);
+  assert.equal(grid.pendingLevels(() => true).includes(level), false);
+
+  grid.onFill(levelFill(7, grid.remaining(level)));
+  assert.equal(level.side, undefined);
+  assert.equal(grid.levels[2].side, Side.Ask);
+  assert.ok(grid.pendingLevels(() => true).includes(grid.levels[2]));
+});
+
+test("a filled sell level hands a buy to the level below it", () => {
+  const grid = new GridManager(settings);
+  grid.build(100, 10);
+  const level = grid.levels[3];
+  grid.recordOrder(level, 9);
+  grid.onFill(levelFill(9, level.size));
+  assert.equal(level.side, undefined);
+  assert.equal(grid.levels[2].side, Side.Bid);
+});
+
+test("the ladder is rebuilt once the price leaves it", () => {
+  const grid = new GridManager(settings);
+  assert.equal(grid.needsRebuild(100), true);
+  grid.build(100, 10);
+  assert.equal(grid.needsRebuild(98.5), false);
+  assert.equal(grid.needsRebuild(97.9), true);
+  assert.equal(grid.needsRebuild(102.1), true);
+});
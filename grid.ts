@@ -0,0 +1,146 @@
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { config } from "./config";
+import { TradeEvent } from "./fills";
+import { ManagedOrder } from "./orders";
+
+export type GridSettings = {
+  levels: number; // Orders per side
+  sides: string; // "both", "buy" or "sell"
+  spacing: string; // "linear" or "geometric"
+  stepPercentage: number;
+  sizes: number[]; // Relative size per level, from the price outwards
+};
+
+export type GridLevel = {
+  index: number; // Position in the ladder, 0 is the lowest price
+  price: number;
+  size: number; // In base units
+  side?: Side; // The order this level wants, none for an empty level
+  filled: number; // Base units filled on the current order
+  clientOrderId?: number;
+};
+
+// Prices from the lowest buy level to the highest sell level, with the
+// center price in the middle
+export function gridPrices(
+  centerPrice: number,
+  settings: GridSettings = config.grid
+): number[] {
+  const step = settings.stepPercentage / 100;
+  const offset = (distance: number, sign: number) =>
+    settings.spacing === "geometric"
+      ? centerPrice * Math.pow(1 + sign * step, distance)
+      : centerPrice * (1 + sign * step * distance);
+
+  const prices: number[] = [];
+  for (let i = settings.levels; i >= 1; i--) prices.push(offset(i, -1));
+  prices.push(centerPrice);
+  for (let i = 1; i <= settings.levels; i++) prices.push(offset(i, 1));
+  return prices;
+}
+
+// USD volume of each level on one side, from the price outwards
+export function gridVolumes(
+  volume: number,
+  settings: GridSettings = config.grid
+): number[] {
+  const weights: number[] = [];
+  for (let i = 0; i < settings.levels; i++) {
+    weights.push(settings.sizes[i] ?? 1);
+  }
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map((weight) => (volume * weight) / total);
+}
+
+// Keeps a ladder of orders around a center price. Buy levels sit below it
+// and sell levels above; when a level fills, the next level on the other
+// side takes the opposite order, so every fill is followed by its way back.
+export class GridManager {
+  levels: GridLevel[] = [];
+
+  constructor(private settings: GridSettings = config.grid) {}
+
+  // Lays out a fresh ladder, with `volume` USD spread over each side
+  build(centerPrice: number, volume: number): GridLevel[] {
+    const { levels, sides } = this.settings;
+    const prices = gridPrices(centerPrice, this.settings);
+    const volumes = gridVolumes(volume, this.settings);
+    this.levels = prices.map((price, index) => {
+      const distance = Math.abs(index - levels);
+      let side: Side | undefined;
+      if (index < levels && sides !== "sell") side = Side.Bid;
+      if (index > levels && sides !== "buy") side = Side.Ask;
+      // The center level only takes refills
+      const levelVolume = distance === 0 ? volumes[0] : volumes[distance - 1];
+      return { index, price, size: levelVolume / price, side, filled: 0 };
+    });
+    return this.levels;
+  }
+
+  // True before the first build and once the price leaves the ladder
+  needsRebuild(currentPrice: number): boolean {
+    if (this.levels.length === 0) return true;
+    return (
+      currentPrice < this.levels[0].price ||
+      currentPrice > this.levels[this.levels.length - 1].price
+    );
+  }
+
+  // Levels that want an order but have none that may still fill
+  pendingLevels(isWorking: (clientOrderId: number) => boolean): GridLevel[] {
+    return this.levels.filter(
+      (level) =>
+        level.side !== undefined &&
+        (level.clientOrderId === undefined || !isWorking(level.clientOrderId))
+    );
+  }
+
+  workingClientOrderIds(): number[] {
+    return this.levels
+      .filter((level) => level.clientOrderId !== undefined)
+      .map((level) => level.clientOrderId!);
+  }
+
+  recordOrder(level: GridLevel, clientOrderId: number) {
+    level.clientOrderId = clientOrderId;
+  }
+
+  // Applies a fill to its level. Once the level's order is filled the level
+  // empties and the neighbour on the way back gets the opposite order.
+  onFill(fill: TradeEvent, order?: ManagedOrder): GridLevel | undefined {
+    const clientOrderId = order?.clientOrderId ?? fill.clientOrderId;
+    const level = this.levels.find(
+      (level) =>
+        clientOrderId !== undefined && level.clientOrderId === clientOrderId
+    );
+    if (!level || level.side === undefined) return undefined;
+
+    level.filled += fill.size;
+    if (level.filled < level.size * 0.99) return level;
+
+    const filledSide = level.side;
+    level.side = undefined;
+    level.clientOrderId = undefined;
+    level.filled = 0;
+    const refill =
+      this.levels[filledSide === Side.Bid ? level.index + 1 : level.index - 1];
+    if (refill && refill.side === undefined) {
+      refill.side = filledSide === Side.Bid ? Side.Ask : Side.Bid;
+      refill.clientOrderId = undefined;
+      refill.filled = 0;
+    }
+    return level;
+  }
+
+  // Remaining base units of the level's current order
+  remaining(level: GridLevel): number {
+    return level.size - level.filled;
+  }
+}
+
+export function describeLevel(level: GridLevel): string {
+  const side = level.side === undefined ? "empty" : Side[level.side];
+  return `level ${level.index} ${side} ${level.size.toFixed(
+    6
+  )} @ ${level.price.toFixed(4)}`;
+}
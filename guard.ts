@@ -0,0 +1,55 @@
+import { CandleFeed, intervalToMilliseconds } from "./rsi";
+import { config } from "./config";
+
+export type FeedStatus = { ok: true } | { ok: false; reason: string };
+
+// Checks that a feed is fit to trade on: a non-zero price that ticked
+// recently without an implausible jump, and candles that arrive on time.
+export function checkFeedStatus(
+  feed: CandleFeed,
+  settings = config.guard
+): FeedStatus {
+  const now = Date.now();
+  const name = `${feed.symbol} ${feed.interval}`;
+
+  if (feed.price <= 0) {
+    return { ok: false, reason: `No ${feed.symbol} price received yet` };
+  }
+  const priceAge = (now - feed.priceUpdatedAt) / 1000;
+  if (priceAge > settings.maxPriceAgeSeconds) {
+    return {
+      ok: false,
+      reason: `${feed.symbol} price is stale, last tick ${priceAge.toFixed(
+        0
+      )}s ago`,
+    };
+  }
+  if (
+    feed.priceJump &&
+    now - feed.priceJump.at < settings.jumpPauseSeconds * 1000
+  ) {
+    return {
+      ok: false,
+      reason: `${feed.symbol} price jumped from ${feed.priceJump.from} to ${feed.priceJump.to}`,
+    };
+  }
+
+  const lastCandleStick = feed.candleSticks[feed.candleSticks.length - 1];
+  if (!lastCandleStick) {
+    return { ok: false, reason: `No ${name} candles received yet` };
+  }
+  const candleDelay =
+    (now - lastCandleStick.closeTime - intervalToMilliseconds(feed.interval)) /
+    1000;
+  if (candleDelay > settings.maxCandleDelaySeconds) {
+    const updatedAgo = (now - feed.candleStickUpdatedAt) / 1000;
+    return {
+      ok: false,
+      reason: `${name} candles are stale, next candle is ${candleDelay.toFixed(
+        0
+      )}s late (last update ${updatedAgo.toFixed(0)}s ago)`,
+    };
+  }
+
+  return { ok: true };
+}
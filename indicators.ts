@@ -0,0 +1,141 @@
+import {
+  RSI,
+  WMA,
+  EMA,
+  MACD,
+  BollingerBands,
+  ATR,
+  StochasticRSI,
+  ADX,
+} from "technicalindicators";
+import { config } from "./config";
+
+// Named indicator values, e.g. indicators.rsi or indicators.bbUpper. An
+// indicator that is disabled or lacks data is missing or NaN.
+export type Indicators = { [name: string]: number };
+
+export type IndicatorSettings = {
+  rsi?: { period: number };
+  wma?: { period: number }; // WMA of the RSI series
+  ema?: { period: number }; // EMA of the RSI series
+  macd?: { fastPeriod: number; slowPeriod: number; signalPeriod: number };
+  bollingerBands?: { period: number; stdDev: number };
+  atr?: { period: number };
+  stochasticRsi?: {
+    rsiPeriod: number;
+    stochasticPeriod: number;
+    kPeriod: number;
+    dPeriod: number;
+  };
+  adx?: { period: number };
+};
+
+function last<T>(values: T[]): T | undefined {
+  return values[values.length - 1];
+}
+
+// Computes the indicators enabled in `settings` over the closed candles plus
+// the live price. Close-based indicators include the live price as their last
+// value, range-based ones (ATR, ADX) only use closed candles.
+export function computeIndicators(
+  candles: any[],
+  currentPrice: number,
+  settings: IndicatorSettings = config.indicators
+): Indicators {
+  const indicators: Indicators = {};
+  const closes = [...candles.map((candle) => candle.closePrice), currentPrice];
+  const highs = candles.map((candle) => candle.highPrice);
+  const lows = candles.map((candle) => candle.lowPrice);
+  const closedCloses = candles.map((candle) => candle.closePrice);
+
+  if (settings.rsi) {
+    const period = settings.rsi.period;
+    const rsiValues =
+      candles.length >= period ? RSI.calculate({ values: closes, period }) : [];
+    indicators.rsi = last(rsiValues) ?? NaN;
+    if (settings.wma) {
+      indicators.wma =
+        rsiValues.length >= settings.wma.period
+          ? last(
+              WMA.calculate({ values: rsiValues, period: settings.wma.period })
+            ) ?? NaN
+          : NaN;
+    }
+    if (settings.ema) {
+      indicators.ema =
+        rsiValues.length >= settings.ema.period
+          ? last(
+              EMA.calculate({ values: rsiValues, period: settings.ema.period })
+            ) ?? NaN
+          : NaN;
+    }
+  }
+
+  if (settings.macd) {
+    const macd = last(
+      MACD.calculate({
+        values: closes,
+        ...settings.macd,
+        SimpleMAOscillator: false,
+        SimpleMASignal: false,
+      })
+    );
+    indicators.macd = macd?.MACD ?? NaN;
+    indicators.macdSignal = macd?.signal ?? NaN;
+    indicators.macdHistogram = macd?.histogram ?? NaN;
+  }
+
+  if (settings.bollingerBands) {
+    const bands = last(
+      BollingerBands.calculate({ values: closes, ...settings.bollingerBands })
+    );
+    indicators.bbUpper = bands?.upper ?? NaN;
+    indicators.bbMiddle = bands?.middle ?? NaN;
+    indicators.bbLower = bands?.lower ?? NaN;
+    indicators.bbWidth = bands
+      ? (bands.upper - bands.lower) / bands.middle
+      : NaN;
+  }
+
+  if (settings.atr) {
+    indicators.atr =
+      last(
+        ATR.calculate({
+          high: highs,
+          low: lows,
+          close: closedCloses,
+          period: settings.atr.period,
+        })
+      ) ?? NaN;
+  }
+
+  if (settings.stochasticRsi) {
+    const stochasticRsi = last(
+      StochasticRSI.calculate({ values: closes, ...settings.stochasticRsi })
+    );
+    indicators.stochRsiK = stochasticRsi?.k ?? NaN;
+    indicators.stochRsiD = stochasticRsi?.d ?? NaN;
+  }
+
+  if (settings.adx) {
+    const adx = last(
+      ADX.calculate({
+        high: highs,
+        low: lows,
+        close: closedCloses,
+        period: settings.adx.period,
+      })
+    );
+    indicators.adx = adx?.adx ?? NaN;
+    indicators.pdi = adx?.pdi ?? NaN;
+    indicators.mdi = adx?.mdi ?? NaN;
+  }
+
+  return indicators;
+}
+
+export function formatIndicators(indicators: Indicators): string {
+  return Object.keys(indicators)
+    .map((name) => `${name}: ${indicators[name].toFixed(4)}`)
+    .join(", ");
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { appendJsonl, readJsonl, writeJsonl } from "./jsonl";
+import { tempDirectory } from "./testing";
+
+function tempFile(): string {
+  return path.join(tempDirectory("jsonl"), "nested", "rows.jsonl");
+}
+
+test("appended rows read back in order", () => {
+  const file = tempFile();
+  appendJsonl(file, [{ a: 1 }, { a: 2 }]);
+  appendJsonl(file, [{ a: 3 }]);
+  assert.deepEqual(readJsonl(file), [{ a: 1 }, { a: 2 }, { a: 3 }]);
+});
+
+test("a missing file reads as empty", () => {
+  assert.deepEqual(readJsonl(tempFile()), []);
+});
+
+test("a partial last line is skipped", () => {
+  const file = tempFile();
+  appendJsonl(file, [{ a: 1 }]);
+  fs.appendFileSync(file, '{"a": ');
+  assert.deepEqual(readJsonl(file), [{ a: 1 }]);
+});
+
+test("written rows replace the file", () => {
+  const file = tempFile();
+  appendJsonl(file, [{ a: 1 }, { a: 2 }]);
+  writeJsonl(file, [{ a: 3 }]);
+  assert.deepEqual(readJsonl(file), [{ a: 3 }]);
+  assert.equal(fs.existsSync(`${file}.tmp`), false);
+});
@@ -0,0 +1,47 @@
+import fs from "fs";
+import path from "path";
+
+// Candles, fills and ledger entries are stored one JSON value per line and
+// appended to. Only the ledger rewrites its file, when fills arrive out of
+// order.
+
+// A missing file reads as empty. A crash mid-write can leave a partial last
+// line, which is skipped.
+export function readJsonl<T = any>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) return [];
+  const rows: T[] = [];
+  fs.readFileSync(filePath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .forEach((line) => {
+      try {
+        rows.push(JSON.parse(line));
+      } catch (error) {
+        console.warn(`Skipping malformed line in ${filePath}`);
+      }
+    });
+  return rows;
+}
+
+// Creates the directory on first use. Write errors are thrown, callers decide
+// whether losing the rows is fatal.
+export function appendJsonl(filePath: string, rows: unknown[]) {
+  if (rows.length === 0) return;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(
+    filePath,
+    rows.map((row) => JSON.stringify(row)).join("\n") + "\n"
+  );
+}
+
+// Replaces the file with `rows`, through a temporary file so a crash leaves
+// either the old or the new content
+export function writeJsonl(filePath: string, rows: unknown[]) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const temporary = `${filePath}.tmp`;
+  fs.writeFileSync(
+    temporary,
+    rows.map((row) => JSON.stringify(row) + "\n").join("")
+  );
+  fs.renameSync(temporary, filePath);
+}
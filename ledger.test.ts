@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { Ledger } from "./ledger";
+import { fill, near, tempDirectory } from "./testing";
+
+function tempLedgerFile(): string {
+  return path.join(tempDirectory("ledger"), "ledger.jsonl");
+}
+
+test("buys average the entry price and sells realize against it", () => {
+  const ledger = new Ledger(tempLedgerFile());
+  ledger.recordFill(fill(Side.Bid, 1, 100));
+  ledger.recordFill(fill(Side.Bid, 1, 110));
+  near(ledger.position("wallet", "SOL/USDC").averageEntryPrice, 105);
+
+  const sell = ledger.recordFill(fill(Side.Ask, 0.5, 115, { fee: 0.1 }))!;
+  near(sell.realizedPnl, 5);
+  const position = ledger.position("wallet", "SOL/USDC");
+  near(position.baseInventory, 1.5);
+  near(position.averageEntryPrice, 105);
+  near(position.fees, 0.1);
+});
+
+test("selling through zero opens a short at the fill price", () => {
+  const ledger = new Ledger(tempLedgerFile());
+  ledger.recordFill(fill(Side.Bid, 1, 100));
+  const sell = ledger.recordFill(fill(Side.Ask, 3, 90))!;
+  near(sell.realizedPnl, -10);
+  near(sell.baseInventory, -2);
+  near(sell.averageEntryPrice, 90);
+
+  const cover = ledger.recordFill(fill(Side.Bid, 2, 80))!;
+  near(cover.realizedPnl, 20);
+  near(cover.baseInventory, 0);
+  near(cover.averageEntryPrice, 0);
+});
+
+test("the report nets realized and unrealized PnL against fees", () => {
+  const ledger = new Ledger(tempLedgerFile());
+  ledger.recordFill(fill(Side.Bid, 2, 100, { fee: 0.2 }));
+  ledger.recordFill(fill(Side.Ask, 1, 110, { fee: 0.1 }));
+  const [report] = ledger.report({}, { "SOL/USDC": 120 });
+  near(report.realizedPnl, 10);
+  near(report.unrealizedPnl, 20);
+  near(report.fees, 0.3);
+  near(report.netPnl, 29.7);
+});
+
+test("a fill is recorded once, also after a restart", () => {
+  const file = tempLedgerFile();
+  const buy = fill(Side.Bid, 1, 100);
+  const ledger = new Ledger(file);
+  assert.ok(ledger.recordFill(buy));
+  assert.equal(ledger.recordFill(buy), undefined);
+  assert.equal(new Ledger(file).importFills([buy]), 0);
+});
+
+test("fills of different wallets and markets in one transaction are kept apart", () => {
+  const ledger = new Ledger(tempLedgerFile());
+  const buy = fill(Side.Bid, 1, 100);
+  ledger.recordFill(buy);
+  assert.ok(ledger.recordFill({ ...buy, trader: "wallet-b" }));
+  assert.ok(ledger.recordFill({ ...buy, market: "BONK/USDC" }));
+  assert.equal(ledger.history().length, 3);
+});
+
+test("entries with keys from before the wallet and market were added still dedupe", () => {
+  const file = tempLedgerFile();
+  const buy = fill(Side.Bid, 1, 100);
+  new Ledger(file).recordFill(buy);
+  const [entry] = fs
+    .readFileSync(file, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+  entry.key = [buy.signature, buy.role, buy.orderSequenceNumber].join(":");
+  fs.writeFileSync(file, JSON.stringify(entry) + "\n");
+
+  assert.equal(new Ledger(file).importFills([buy]), 0);
+});
+
+test("missed fills older than the ledger are replayed in time order", () => {
+  const file = tempLedgerFile();
+  const buy = fill(Side.Bid, 1, 100, { timestamp: 1000 });
+  const earlierBuy = fill(Side.Bid, 1, 80, { timestamp: 500 });
+  const sell = fill(Side.Ask, 1, 110, { timestamp: 2000 });
+  const ledger = new Ledger(file);
+  ledger.recordFill(buy);
+  ledger.recordFill(sell);
+  near(ledger.position("wallet", "SOL/USDC").realizedPnl, 10);
+
+  assert.equal(ledger.importFills([sell, earlierBuy]), 1);
+  assert.deepEqual(
+    ledger.history().map((entry) => entry.timestamp),
+    [500, 1000, 2000]
+  );
+  // The sell now realizes against the average of both buys
+  near(ledger.position("wallet", "SOL/USDC").realizedPnl, 20);
+  near(new Ledger(file).position("wallet", "SOL/USDC").realizedPnl, 20);
+});
@@ -0,0 +1,430 @@
+import path from "path";
+import axios from "axios";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { config } from "./config";
+import { loadTradeEvents, TradeEvent } from "./fills";
+import { appendJsonl, readJsonl, writeJsonl } from "./jsonl";
+import { parseArgs } from "./args";
+
+// One fill and the wallet's position on that market right after it
+export type LedgerEntry = {
+  key: string; // Identifies the fill, so replaying fills is harmless
+  timestamp: number;
+  slot?: number; // Missing in entries written before it was recorded
+  wallet: string;
+  market: string;
+  signature: string;
+  side: Side;
+  role?: "maker" | "taker";
+  price: number;
+  size: number; // In base units
+  fee: number; // In quote units
+  realizedPnl: number; // Realized by this fill, before fees
+  baseInventory: number; // Negative after selling more than the ledger bought
+  averageEntryPrice: number;
+  totalRealizedPnl: number;
+  totalFees: number;
+};
+
+export type Position = {
+  wallet: string;
+  market: string;
+  baseInventory: number;
+  averageEntryPrice: number;
+  realizedPnl: number;
+  fees: number;
+  updatedAt: number;
+};
+
+export type LedgerFilter = {
+  wallet?: string;
+  market?: string;
+  from?: number; // Inclusive, in milliseconds
+  to?: number; // Inclusive, in milliseconds
+};
+
+export type LedgerReport = {
+  wallet: string;
+  market: string;
+  fills: number;
+  boughtBase: number;
+  soldBase: number;
+  volume: number; // In quote units
+  realizedPnl: number; // Over the range, before fees
+  fees: number; // Over the range
+  baseInventory: number; // At the end of the range
+  averageEntryPrice: number;
+  price?: number; // Used for the unrealized PnL
+  unrealizedPnl: number;
+  netPnl: number; // Realized plus unrealized, minus fees
+};
+
+// One transaction can fill several wallets, and paper fills of different
+// markets can share an order id, so the key names both
+function fillKey(fill: TradeEvent): string {
+  return [
+    fill.trader,
+    fill.market,
+    fill.signature,
+    fill.role,
+    fill.orderSequenceNumber ?? fill.clientOrderId,
+  ].join(":");
+}
+
+// Fills are accounted in the order they happened
+function byTime(
+  a: { timestamp: number; slot?: number },
+  b: { timestamp: number; slot?: number }
+): number {
+  return a.timestamp - b.timestamp || (a.slot ?? 0) - (b.slot ?? 0);
+}
+
+function positionKey(wallet: string, market: string): string {
+  return `${wallet} ${market}`;
+}
+
+export function unrealizedPnl(
+  baseInventory: number,
+  averageEntryPrice: number,
+  price: number
+): number {
+  return (price - averageEntryPrice) * baseInventory;
+}
+
+// Average cost accounting per wallet and market. Fills that grow the position
+// move the average entry price, fills that shrink it realize PnL against it.
+// Entries are appended to a JSONL file and replayed on startup.
+export class Ledger {
+  private entries: LedgerEntry[] = [];
+  private keys = new Set<string>();
+  private positions = new Map<string, Position>();
+
+  constructor(private filePath: string = config.ledger.file) {
+    this.load();
+  }
+
+  recordFill(fill: TradeEvent): LedgerEntry | undefined {
+    if (fill.kind !== "fill") return undefined;
+    const key = fillKey(fill);
+    if (this.keys.has(key)) return undefined;
+    const entry = this.entryFor(fill, key);
+    this.apply(entry);
+    this.append(entry);
+    return entry;
+  }
+
+  // Records fills the fill store has but the ledger missed, for example when
+  // the bot stopped between writing the two files. Missed fills older than
+  // the latest entry are replayed with every entry in time order, and the
+  // ledger file is rewritten.
+  importFills(fills: TradeEvent[]): number {
+    const missed = fills
+      .filter((fill) => fill.kind === "fill" && !this.keys.has(fillKey(fill)))
+      .sort(byTime);
+    const latest = this.entries.reduce<LedgerEntry | undefined>(
+      (latest, entry) =>
+        !latest || byTime(entry, latest) > 0 ? entry : latest,
+      undefined
+    );
+    if (missed.length === 0 || !latest || byTime(missed[0], latest) >= 0) {
+      return missed.filter((fill) => this.recordFill(fill) !== undefined)
+        .length;
+    }
+
+    const replay = [
+      ...this.entries.map((entry) => ({
+        fill: entryFill(entry),
+        key: entry.key,
+      })),
+      ...missed.map((fill) => ({ fill, key: fillKey(fill) })),
+    ].sort((a, b) => byTime(a.fill, b.fill));
+    this.entries = [];
+    this.keys.clear();
+    this.positions.clear();
+    replay.forEach(({ fill, key }) => {
+      if (!this.keys.has(key)) this.apply(this.entryFor(fill, key));
+    });
+    try {
+      writeJsonl(this.filePath, this.entries);
+    } catch (error) {
+      console.error(`Failed to rewrite the ledger ${this.filePath}:`, error);
+    }
+    return missed.length;
+  }
+
+  private entryFor(fill: TradeEvent, key: string): LedgerEntry {
+    const position = this.position(fill.trader, fill.market);
+    const signedSize = fill.side === Side.Bid ? fill.size : -fill.size;
+    let inventory = position.baseInventory;
+    let averageEntryPrice = position.averageEntryPrice;
+    let realizedPnl = 0;
+
+    if (inventory === 0 || Math.sign(inventory) === Math.sign(signedSize)) {
+      averageEntryPrice =
+        (averageEntryPrice * Math.abs(inventory) + fill.price * fill.size) /
+        (Math.abs(inventory) + fill.size);
+      inventory += signedSize;
+    } else {
+      const closed = Math.min(Math.abs(inventory), fill.size);
+      realizedPnl =
+        (fill.price - averageEntryPrice) * closed * Math.sign(inventory);
+      inventory += signedSize;
+      // Whatever is left after closing opens a position at the fill price
+      if (fill.size > closed) averageEntryPrice = fill.price;
+    }
+    // Float dust would keep a closed position alive
+    if (Math.abs(inventory) < 1e-9) {
+      inventory = 0;
+      averageEntryPrice = 0;
+    }
+
+    return {
+      key,
+      timestamp: fill.timestamp,
+      slot: fill.slot,
+      wallet: fill.trader,
+      market: fill.market,
+      signature: fill.signature,
+      side: fill.side,
+      role: fill.role,
+      price: fill.price,
+      size: fill.size,
+      fee: fill.fee,
+      realizedPnl,
+      baseInventory: inventory,
+      averageEntryPrice,
+      totalRealizedPnl: position.realizedPnl + realizedPnl,
+      totalFees: position.fees + fill.fee,
+    };
+  }
+
+  position(wallet: string, market: string): Position {
+    return (
+      this.positions.get(positionKey(wallet, market)) ?? {
+        wallet,
+        market,
+        baseInventory: 0,
+        averageEntryPrice: 0,
+        realizedPnl: 0,
+        fees: 0,
+        updatedAt: 0,
+      }
+    );
+  }
+
+  history(filter: LedgerFilter = {}): LedgerEntry[] {
+    return this.entries.filter(
+      (entry) =>
+        (!filter.wallet || entry.wallet === filter.wallet) &&
+        (!filter.market || entry.market === filter.market) &&
+        (filter.from === undefined || entry.timestamp >= filter.from) &&
+        (filter.to === undefined || entry.timestamp <= filter.to)
+    );
+  }
+
+  // One report per wallet and market matching the filter. Unrealized PnL is
+  // taken at `prices[market]`, or at the last fill price when none is given.
+  report(
+    filter: LedgerFilter = {},
+    prices: { [market: string]: number } = {}
+  ): LedgerReport[] {
+    const reports = new Map<string, LedgerReport>();
+    this.history(filter).forEach((entry) => {
+      const key = positionKey(entry.wallet, entry.market);
+      const report = reports.get(key) ?? {
+        wallet: entry.wallet,
+        market: entry.market,
+        fills: 0,
+        boughtBase: 0,
+        soldBase: 0,
+        volume: 0,
+        realizedPnl: 0,
+        fees: 0,
+        baseInventory: 0,
+        averageEntryPrice: 0,
+        unrealizedPnl: 0,
+        netPnl: 0,
+      };
+      report.fills++;
+      if (entry.side === Side.Bid) report.boughtBase += entry.size;
+      else report.soldBase += entry.size;
+      report.volume += entry.price * entry.size;
+      report.realizedPnl += entry.realizedPnl;
+      report.fees += entry.fee;
+      report.baseInventory = entry.baseInventory;
+      report.averageEntryPrice = entry.averageEntryPrice;
+      report.price = prices[entry.market] ?? entry.price;
+      reports.set(key, report);
+    });
+
+    return Array.from(reports.values()).map((report) => {
+      report.unrealizedPnl = unrealizedPnl(
+        report.baseInventory,
+        report.averageEntryPrice,
+        report.price ?? 0
+      );
+      report.netPnl = report.realizedPnl + report.unrealizedPnl - report.fees;
+      return report;
+    });
+  }
+
+  private apply(entry: LedgerEntry) {
+    this.entries.push(entry);
+    this.keys.add(entry.key);
+    this.positions.set(positionKey(entry.wallet, entry.market), {
+      wallet: entry.wallet,
+      market: entry.market,
+      baseInventory: entry.baseInventory,
+      averageEntryPrice: entry.averageEntryPrice,
+      realizedPnl: entry.totalRealizedPnl,
+      fees: entry.totalFees,
+      updatedAt: entry.timestamp,
+    });
+  }
+
+  private load() {
+    readJsonl<LedgerEntry>(this.filePath).forEach((entry) => {
+      // Keys written before they named the wallet and market
+      if (!entry.key.startsWith(`${entry.wallet}:`)) {
+        entry.key = [entry.wallet, entry.market, entry.key].join(":");
+      }
+      this.apply(entry);
+    });
+  }
+
+  private append(entry: LedgerEntry) {
+    try {
+      appendJsonl(this.filePath, [entry]);
+    } catch (error) {
+      console.error(`Failed to write ledger entry ${entry.key}:`, error);
+    }
+  }
+}
+
+// The fill an entry was recorded from, to replay it
+function entryFill(entry: LedgerEntry): TradeEvent {
+  return {
+    kind: "fill",
+    market: entry.market,
+    trader: entry.wallet,
+    signature: entry.signature,
+    slot: entry.slot ?? 0,
+    timestamp: entry.timestamp,
+    side: entry.side,
+    role: entry.role,
+    price: entry.price,
+    size: entry.size,
+    fee: entry.fee,
+  };
+}
+
+export function describePosition(position: Position, price: number): string {
+  return `base ${position.baseInventory.toFixed(
+    6
+  )} @ ${position.averageEntryPrice.toFixed(
+    4
+  )}, realized PnL: ${position.realizedPnl.toFixed(
+    6
+  )}, unrealized PnL: ${unrealizedPnl(
+    position.baseInventory,
+    position.averageEntryPrice,
+    price
+  ).toFixed(6)}, fees: ${position.fees.toFixed(6)}`;
+}
+
+async function fetchPrice(market: string): Promise<number | undefined> {
+  const symbol = config.markets[market]?.symbol;
+  if (!symbol) return undefined;
+  try {
+    const res = await axios.get("https://api.binance.com/api/v3/ticker/price", {
+      params: { symbol },
+    });
+    return parseFloat(res.data.price);
+  } catch (error) {
+    console.error(
+      `Could not fetch the ${symbol} price, using the last fill price:`,
+      error instanceof Error ? error.message : error
+    );
+    return undefined;
+  }
+}
+
+async function main() {
+  const { args } = parseArgs(process.argv.slice(2), ["help", "paper"]);
+  if (args.help) {
+    console.log(
+      "Usage: ts-node ledger.ts [--wallet <public key>] [--market SOL/USDC] [--from 2024-01-01] [--to 2024-12-31] [--price 150] [--paper]"
+    );
+    return;
+  }
+
+  const paper = args.paper === "true";
+  const ledger = new Ledger(
+    paper ? path.join(config.paper.directory, "ledger.jsonl") : undefined
+  );
+  // Pick up fills that reached the fill store but not the ledger
+  const fillsDirectory = paper
+    ? path.join(config.paper.directory, "fills")
+    : config.fills.directory;
+  ledger.importFills(
+    Object.keys(config.markets).flatMap((market) =>
+      loadTradeEvents(market, fillsDirectory)
+    )
+  );
+
+  const filter: LedgerFilter = {
+    wallet: args.wallet,
+    market: args.market,
+    from: args.from ? new Date(args.from).getTime() : undefined,
+    to: args.to ? new Date(args.to).getTime() : undefined,
+  };
+  // One --price can only be the price of one market
+  const markets = new Set(ledger.history(filter).map((entry) => entry.market));
+  if (args.price && markets.size > 1) {
+    console.error(
+      `--price applies to one market, the report covers ${markets.size}: ${[
+        ...markets,
+      ].join(", ")}. Select one with --market.`
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const prices: { [market: string]: number } = {};
+  for (const market of markets) {
+    const price = args.price ? Number(args.price) : await fetchPrice(market);
+    if (price) prices[market] = price;
+  }
+
+  const reports = ledger.report(filter, prices);
+  if (reports.length === 0) {
+    console.log("No fills in the selected range.");
+    return;
+  }
+  reports.forEach((report) => {
+    console.log(`\n${report.wallet} ${report.market}`);
+    console.log(
+      `Fills: ${report.fills}, bought: ${report.boughtBase.toFixed(
+        6
+      )}, sold: ${report.soldBase.toFixed(6)}, volume: ${report.volume.toFixed(
+        4
+      )}`
+    );
+    console.log(
+      `Base inventory: ${report.baseInventory.toFixed(
+        6
+      )}, average entry: ${report.averageEntryPrice.toFixed(4)}`
+    );
+    console.log(
+      `Realized PnL: ${report.realizedPnl.toFixed(
+        6
+      )}, unrealized PnL: ${report.unrealizedPnl.toFixed(6)} @ ${
+        report.price
+      }, fees: ${report.fees.toFixed(6)}`
+    );
+    console.log(`Net PnL: ${report.netPnl.toFixed(6)}`);
+  });
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,16 @@
+export type Logger = {
+  log: (...args: any[]) => void;
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+  error: (...args: any[]) => void;
+};
+
+export function createLogger(tag: string): Logger {
+  const prefix = `[${tag}]`;
+  return {
+    log: (...args) => console.log(prefix, ...args),
+    info: (...args) => console.info(prefix, ...args),
+    warn: (...args) => console.warn(prefix, ...args),
+    error: (...args) => console.error(prefix, ...args),
+  };
+}
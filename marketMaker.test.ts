@@ -0,0 +1,167 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PublicKey } from "@solana/web3.js";
+import { MarketState, Side, toBN } from "@ellipsis-labs/phoenix-sdk";
+import {
+  computeQuotes,
+  MarketMaker,
+  MarketMakerSettings,
+  QuoteSet,
+} from "./marketMaker";
+import { getMidPriceWithout } from "./functions";
+import { near } from "./testing";
+
+const settings: MarketMakerSettings = {
+  spreadPercentage: 2,
+  skewPercentage: 1,
+  refreshPercentage: 0.5,
+  maxBaseShare: 0.8,
+  minBaseShare: 0.2,
+  refreshSeconds: 10,
+};
+
+const balanced = { totalBaseBalance: 500, totalQuoteBalance: 500 };
+
+test("a balanced wallet quotes symmetrically around the mid", () => {
+  const quoteSet = computeQuotes(100, 10, balanced, settings);
+  near(quoteSet.center, 100);
+  assert.deepEqual(
+    quoteSet.quotes.map((quote) => quote.side),
+    [Side.Bid, Side.Ask]
+  );
+  near(quoteSet.quotes[0].price, 99);
+  near(quoteSet.quotes[1].price, 101);
+  near(quoteSet.quotes[0].size, 10 / 99);
+});
+
+test("the center moves away from the side the wallet holds too much of", () => {
+  const baseHeavy = computeQuotes(
+    100,
+    10,
+    { totalBaseBalance: 700, totalQuoteBalance: 300 },
+    settings
+  );
+  near(baseHeavy.center, 99.6);
+  const quoteHeavy = computeQuotes(
+    100,
+    10,
+    { totalBaseBalance: 300, totalQuoteBalance: 700 },
+    settings
+  );
+  near(quoteHeavy.center, 100.4);
+});
+
+test("a side past the inventory cap is left out", () => {
+  const baseOnly = computeQuotes(
+    100,
+    10,
+    { totalBaseBalance: 900, totalQuoteBalance: 100 },
+    settings
+  );
+  assert.deepEqual(baseOnly.capped, [Side.Bid]);
+  assert.deepEqual(
+    baseOnly.quotes.map((quote) => quote.side),
+    [Side.Ask]
+  );
+  const quoteOnly = computeQuotes(
+    100,
+    10,
+    { ...balanced, totalBaseBalance: 0 },
+    settings
+  );
+  assert.deepEqual(quoteOnly.capped, [Side.Ask]);
+});
+
+// Places every quote the maker asks for, numbering them from 1
+function placeAll(
+  maker: MarketMaker,
+  quoteSet: QuoteSet,
+  isWorking: (clientOrderId: number) => boolean,
+  ids: { next: number }
+) {
+  const actions = maker.update(quoteSet, isWorking);
+  actions.forEach((action) => {
+    if (action.type === "place") maker.recordQuote(action.side, ids.next++);
+  });
+  return actions;
+}
+
+test("working quotes stay until the mid moves past the refresh", () => {
+  const maker = new MarketMaker(settings);
+  const ids = { next: 1 };
+  const working = () => true;
+  placeAll(maker, computeQuotes(100, 10, balanced, settings), working, ids);
+
+  assert.deepEqual(
+    maker.update(computeQuotes(100.4, 10, balanced, settings), working),
+    []
+  );
+  const actions = placeAll(
+    maker,
+    computeQuotes(100.6, 10, balanced, settings),
+    working,
+    ids
+  );
+  assert.deepEqual(
+    actions.map((action) => action.type),
+    ["cancel", "cancel", "place", "place"]
+  );
+});
+
+test("a quote that left the book is placed again", () => {
+  const maker = new MarketMaker(settings);
+  const ids = { next: 1 };
+  placeAll(maker, computeQuotes(100, 10, balanced, settings), () => true, ids);
+
+  // The bid, id 1, expired or filled; the ask is still working
+  const actions = maker.update(
+    computeQuotes(100, 10, balanced, settings),
+    (clientOrderId) => clientOrderId !== 1
+  );
+  assert.deepEqual(
+    actions.map((action) => [action.type, action.side]),
+    [["place", Side.Bid]]
+  );
+});
+
+// A book of [priceInTicks, traderIndex] bids and asks, one tick per quote unit
+function market(
+  bids: [number, number][],
+  asks: [number, number][],
+  trader: PublicKey
+): MarketState {
+  const book = (orders: [number, number][]) =>
+    orders.map(([priceInTicks, traderIndex], index) => [
+      { priceInTicks: toBN(priceInTicks), orderSequenceNumber: toBN(index) },
+      { traderIndex, numBaseLots: 1 },
+    ]);
+  return {
+    ticksToFloatPrice: (ticks: number) => ticks,
+    data: {
+      bids: book(bids),
+      asks: book(asks),
+      traderPubkeyToTraderIndex: new Map([[trader.toString(), 1]]),
+    },
+  } as unknown as MarketState;
+}
+
+test("the mid leaves out the wallet's own quotes", async () => {
+  const trader = PublicKey.unique();
+  const book = market(
+    [
+      [100, 1],
+      [98, 2],
+    ],
+    [
+      [101, 1],
+      [104, 2],
+    ],
+    trader
+  );
+  assert.equal(await getMidPriceWithout(book, trader), 101);
+  // Alone on a side, the wallet has no mid to quote around
+  assert.equal(
+    await getMidPriceWithout(market([[100, 1]], [[104, 2]], trader), trader),
+    undefined
+  );
+});
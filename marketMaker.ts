@@ -0,0 +1,138 @@
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { config } from "./config";
+
+export type MarketMakerSettings = {
+  spreadPercentage: number; // Distance between the bid and the ask
+  skewPercentage: number; // Shift of both quotes at a fully one-sided inventory
+  refreshPercentage: number; // Mid move that replaces the quotes
+  maxBaseShare: number; // Stop bidding above this share of base in the wallet
+  minBaseShare: number; // Stop asking below it
+  refreshSeconds: number;
+};
+
+// Wallet value as returned by checkUserBalance, both sides in quote
+export type Inventory = {
+  totalBaseBalance: number;
+  totalQuoteBalance: number;
+};
+
+export type Quote = {
+  side: Side;
+  price: number;
+  size: number; // In base units
+};
+
+export type QuoteSet = {
+  mid: number;
+  center: number; // The mid after the inventory skew
+  baseShare: number; // Base value over total wallet value, 0.5 when balanced
+  quotes: Quote[];
+  capped: Side[]; // Sides left out because the inventory cap is reached
+};
+
+export type MarketMakerAction =
+  | { type: "cancel"; side: Side; clientOrderIds: number[] }
+  | ({ type: "place" } & Quote);
+
+// Quotes `volume` USD on each side of `mid`. The center moves away from the
+// side the wallet already holds too much of, so fills pull the inventory back
+// towards an even split.
+export function computeQuotes(
+  mid: number,
+  volume: number,
+  inventory: Inventory,
+  settings: MarketMakerSettings = config.marketMaking
+): QuoteSet {
+  const total = inventory.totalBaseBalance + inventory.totalQuoteBalance;
+  const baseShare = total > 0 ? inventory.totalBaseBalance / total : 0.5;
+  // -1 with only quote in the wallet, 1 with only base
+  const skew = (baseShare - 0.5) * 2;
+  const center = mid * (1 - (skew * settings.skewPercentage) / 100);
+  const halfSpread = settings.spreadPercentage / 2 / 100;
+
+  const quotes: Quote[] = [];
+  const capped: Side[] = [];
+  if (baseShare >= settings.maxBaseShare) {
+    capped.push(Side.Bid);
+  } else {
+    const price = center * (1 - halfSpread);
+    quotes.push({ side: Side.Bid, price, size: volume / price });
+  }
+  if (baseShare <= settings.minBaseShare) {
+    capped.push(Side.Ask);
+  } else {
+    const price = center * (1 + halfSpread);
+    quotes.push({ side: Side.Ask, price, size: volume / price });
+  }
+  return { mid, center, baseShare, quotes, capped };
+}
+
+// Keeps one bid and one ask of a wallet around the book mid. Quotes stay on
+// the book until the mid moves past refreshPercentage from where they were
+// placed, or until their side reaches the inventory cap. A quote that left
+// the book, filled or expired, is placed again on the next update.
+export class MarketMaker {
+  private quotedMid?: number;
+  private working = new Map<Side, number[]>(); // Side -> client order ids
+
+  constructor(private settings: MarketMakerSettings = config.marketMaking) {}
+
+  // Returns what has to be cancelled and placed. `isWorking` tells whether a
+  // quote may still fill.
+  update(
+    quoteSet: QuoteSet,
+    isWorking: (clientOrderId: number) => boolean
+  ): MarketMakerAction[] {
+    const actions: MarketMakerAction[] = [];
+    this.working.forEach((clientOrderIds, side) =>
+      this.working.set(side, clientOrderIds.filter(isWorking))
+    );
+
+    const moved =
+      this.quotedMid !== undefined &&
+      (Math.abs(quoteSet.mid - this.quotedMid) / this.quotedMid) * 100 >
+        this.settings.refreshPercentage;
+    [Side.Bid, Side.Ask].forEach((side) => {
+      const clientOrderIds = this.working.get(side) ?? [];
+      if (
+        clientOrderIds.length > 0 &&
+        (moved || quoteSet.capped.includes(side))
+      ) {
+        actions.push({ type: "cancel", side, clientOrderIds });
+        this.working.set(side, []);
+      }
+    });
+    if (moved || this.quotedMid === undefined) this.quotedMid = quoteSet.mid;
+
+    quoteSet.quotes.forEach((quote) => {
+      if ((this.working.get(quote.side) ?? []).length > 0) return;
+      actions.push({ type: "place", ...quote });
+    });
+    return actions;
+  }
+
+  recordQuote(side: Side, clientOrderId: number) {
+    this.working.set(side, [...(this.working.get(side) ?? []), clientOrderId]);
+  }
+}
+
+export function describeQuotes(quoteSet: QuoteSet): string {
+  const quotes = quoteSet.quotes
+    .map(
+      (quote) =>
+        `${Side[quote.side]} ${quote.size.toFixed(6)} @ ${quote.price.toFixed(
+          4
+        )}`
+    )
+    .join(", ");
+  const capped = quoteSet.capped.map((side) => `${Side[side]} capped`);
+  return [
+    `mid ${quoteSet.mid.toFixed(4)}`,
+    `center ${quoteSet.center.toFixed(4)}`,
+    `base share ${(quoteSet.baseShare * 100).toFixed(1)}%`,
+    quotes,
+    ...capped,
+  ]
+    .filter((part) => part !== "")
+    .join(", ");
+}
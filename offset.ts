@@ -0,0 +1,86 @@
+import { ATR } from "technicalindicators";
+import { config } from "./config";
+
+export type OffsetSettings = {
+  mode: string; // "fixed", "atr" or "volatility"
+  period: number;
+  atrMultiplier: number;
+  volatilityMultiplier: number;
+  minPercentage: number;
+  maxPercentage: number;
+};
+
+export type Offset = {
+  percentage: number;
+  description: string;
+};
+
+// Average true range over the last `period` candles, as a percentage of price
+function atrPercentage(candles: any[], currentPrice: number, period: number) {
+  const atrValues = ATR.calculate({
+    high: candles.map((candle) => candle.highPrice),
+    low: candles.map((candle) => candle.lowPrice),
+    close: candles.map((candle) => candle.closePrice),
+    period,
+  });
+  const atr = atrValues[atrValues.length - 1];
+  return atr === undefined ? NaN : (atr / currentPrice) * 100;
+}
+
+// Standard deviation of the last `period` close-to-close returns, in percent
+function realizedVolatilityPercentage(candles: any[], period: number) {
+  const closes = candles
+    .slice(-(period + 1))
+    .map((candle) => candle.closePrice);
+  if (closes.length < period + 1) return NaN;
+  const returns = closes
+    .slice(1)
+    .map((close, i) => Math.log(close / closes[i]));
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    (returns.length - 1);
+  return Math.sqrt(variance) * 100;
+}
+
+// Picks how far from the current price to rest orders. "fixed" keeps the
+// configured percentage; "atr" and "volatility" scale with recent candles and
+// are clamped to [minPercentage, maxPercentage]. Falls back to the fixed
+// percentage while there are not enough candles.
+export function calculateOffset(
+  candles: any[],
+  currentPrice: number,
+  percentage: number,
+  settings: OffsetSettings = config.offset
+): Offset {
+  let measured: number;
+  let multiplier: number;
+  if (settings.mode === "atr") {
+    measured = atrPercentage(candles, currentPrice, settings.period);
+    multiplier = settings.atrMultiplier;
+  } else if (settings.mode === "volatility") {
+    measured = realizedVolatilityPercentage(candles, settings.period);
+    multiplier = settings.volatilityMultiplier;
+  } else {
+    return { percentage, description: "fixed" };
+  }
+
+  if (isNaN(measured)) {
+    return {
+      percentage,
+      description: `fixed, not enough candles for ${settings.mode}`,
+    };
+  }
+  const clamped = Math.min(
+    settings.maxPercentage,
+    Math.max(settings.minPercentage, measured * multiplier)
+  );
+  return {
+    percentage: clamped,
+    description: `${settings.mode} ${measured.toFixed(
+      4
+    )}% x ${multiplier}, clamped to [${settings.minPercentage}%, ${
+      settings.maxPercentage
+    }%]`,
+  };
+}
@@ -0,0 +1,182 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import BN from "bn.js";
+import { PublicKey } from "@solana/web3.js";
+import * as Phoenix from "@ellipsis-labs/phoenix-sdk";
+import { MarketState, Side, toBN } from "@ellipsis-labs/phoenix-sdk";
+import { OrderManager } from "./orders";
+import { getCurrentOrders } from "./functions";
+import { sideFromOrderId, uiOrderSequenceNumber } from "./fills";
+
+function bookOrder(
+  side: Side,
+  priceInTicks: number,
+  orderSequenceNumber: number,
+  sizeInBaseLots: number = 10
+): Phoenix.L3Order {
+  return {
+    priceInTicks: toBN(priceInTicks),
+    side,
+    sizeInBaseLots: toBN(sizeInBaseLots),
+    makerPubkey: "trader",
+    orderSequenceNumber: toBN(orderSequenceNumber),
+    lastValidSlot: toBN(0),
+    lastValidUnixTimestampInSeconds: toBN(0),
+  };
+}
+
+function placedOrder(
+  manager: OrderManager,
+  side: Side,
+  priceInTicks: number,
+  restUntilCanceled: boolean = false
+) {
+  return manager.recordPlaced(
+    {
+      clientOrderId: manager.nextClientOrderId(),
+      side,
+      priceInTicks,
+      price: priceInTicks / 1000,
+      reason: "test",
+    },
+    restUntilCanceled
+  );
+}
+
+test("a pending order is matched to the new book order at its price", () => {
+  const manager = new OrderManager(60);
+  const order = placedOrder(manager, Side.Bid, 100);
+  manager.sync([bookOrder(Side.Bid, 100, 7)]);
+  assert.equal(order.state, "open");
+  assert.equal(order.orderSequenceNumber, "7");
+});
+
+test("a canceled order is cancelled once the book no longer has it", () => {
+  const manager = new OrderManager(60);
+  const order = placedOrder(manager, Side.Ask, 120);
+  manager.sync([bookOrder(Side.Ask, 120, 3)]);
+
+  manager.markCancelling([order]);
+  assert.equal(order.state, "cancelling");
+  assert.equal(manager.restingOrders().length, 1);
+  assert.ok(manager.mayStillFill(order.clientOrderId, 0));
+
+  manager.sync([]);
+  assert.equal(order.state, "cancelled");
+  assert.equal(manager.restingOrders().length, 0);
+});
+
+test("a canceled order still on the book is due for cancel again", () => {
+  const manager = new OrderManager(60);
+  const now = Date.now();
+  const order = placedOrder(manager, Side.Bid, 100);
+  manager.sync([bookOrder(Side.Bid, 100, 5)], now);
+  assert.equal(manager.dueForCancel(now).length, 0);
+
+  manager.markCancelling([order], now);
+  const transitions = manager.sync([bookOrder(Side.Bid, 100, 5)], now + 1000);
+  assert.equal(order.state, "open");
+  assert.deepEqual(
+    transitions.map(({ from, to }) => [from, to]),
+    [["cancelling", "open"]]
+  );
+  assert.deepEqual(manager.dueForCancel(now + 1000), [order]);
+});
+
+test("orders stay valid on chain until the cycle after their cancel time", () => {
+  assert.equal(new OrderManager(60).validSeconds(), 120);
+});
+
+test("an order leaving the book after its cancel time expired", () => {
+  const manager = new OrderManager(60);
+  const now = Date.now();
+  const order = placedOrder(manager, Side.Bid, 100);
+  manager.sync([bookOrder(Side.Bid, 100, 4)], now);
+  manager.sync([], now + 61 * 1000);
+  assert.equal(order.state, "expired");
+});
+
+test("an order resting until canceled is never due and only fills", () => {
+  const manager = new OrderManager(60);
+  const now = Date.now();
+  const order = placedOrder(manager, Side.Ask, 120, true);
+  assert.equal(order.cancelAt, undefined);
+  manager.sync([bookOrder(Side.Ask, 120, 6)], now);
+  assert.deepEqual(manager.dueForCancel(now + 3600 * 1000), []);
+  manager.sync([], now + 3600 * 1000);
+  assert.equal(order.state, "filled");
+});
+
+// A market whose book holds one order of `trader`, with its id as stored on
+// chain
+function marketWithOrder(
+  trader: PublicKey,
+  side: Side,
+  priceInTicks: number,
+  rawOrderId: BN
+): MarketState {
+  const resting = {
+    traderIndex: 1,
+    numBaseLots: 10,
+    lastValidSlot: 0,
+    lastValidUnixTimestampInSeconds: 0,
+  };
+  const book = [
+    [
+      { priceInTicks: toBN(priceInTicks), orderSequenceNumber: rawOrderId },
+      resting,
+    ],
+  ];
+  return {
+    data: {
+      bids: side === Side.Bid ? book : [],
+      asks: side === Side.Ask ? book : [],
+      traderPubkeyToTraderIndex: new Map([[trader.toString(), 1]]),
+    },
+  } as unknown as MarketState;
+}
+
+// What FillTracker records for a maker fill of the order with this id
+function makerFill(rawOrderId: BN, priceInTicks: number) {
+  return {
+    side: sideFromOrderId(rawOrderId),
+    priceInTicks,
+    orderSequenceNumber: uiOrderSequenceNumber(rawOrderId),
+  };
+}
+
+test("a maker fill of a bid resolves to its managed order", async () => {
+  const trader = PublicKey.unique();
+  // Bids are stored with their sequence number bitwise inverted
+  const rawOrderId = new BN(41).notn(64);
+  const manager = new OrderManager(60);
+  const order = placedOrder(manager, Side.Bid, 100);
+  const bookOrders = await getCurrentOrders(
+    marketWithOrder(trader, Side.Bid, 100, rawOrderId),
+    trader
+  );
+  manager.sync(bookOrders);
+  assert.equal(order.orderSequenceNumber, "41");
+
+  // Fill it on the book, so matching by side and price cannot hide a mismatch
+  manager.sync([]);
+  assert.equal(manager.findForFill(makerFill(rawOrderId, 100)), order);
+  // And the cancel targets the id stored on chain
+  const cancel = Phoenix.getCancelOrderParamsFromL3Order(bookOrders[0]);
+  assert.ok(toBN(cancel.orderSequenceNumber).eq(rawOrderId));
+});
+
+test("a maker fill of an ask resolves to its managed order", async () => {
+  const trader = PublicKey.unique();
+  const rawOrderId = new BN(42);
+  const manager = new OrderManager(60);
+  const order = placedOrder(manager, Side.Ask, 120);
+  manager.sync(
+    await getCurrentOrders(
+      marketWithOrder(trader, Side.Ask, 120, rawOrderId),
+      trader
+    )
+  );
+  manager.sync([]);
+  assert.equal(manager.findForFill(makerFill(rawOrderId, 120)), order);
+});
@@ -0,0 +1,292 @@
+import * as Phoenix from "@ellipsis-labs/phoenix-sdk";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+
+export type OrderState =
+  | "pending" // Placed, not seen on the book yet
+  | "open"
+  | "partiallyFilled"
+  | "filled"
+  | "expired"
+  | "cancelling" // Cancel sent, not yet seen gone from the book
+  | "cancelled";
+
+export type ManagedOrder = {
+  clientOrderId: number; // 0 for orders found on the book but not placed by us
+  side: Side;
+  priceInTicks: number;
+  price: number;
+  reason: string; // Why the order was placed
+  placedAt: number;
+  cancelAt?: number; // Unset for orders that rest until their owner cancels them
+  state: OrderState;
+  orderSequenceNumber?: string; // Known once the order is seen on the book
+  numBaseLots?: number; // Size when first seen on the book
+  filledBaseLots: number;
+  bookOrder?: Phoenix.L3Order; // Latest copy from the book, used to cancel
+  updatedAt: number;
+};
+
+export type OrderTransition = {
+  order: ManagedOrder;
+  from: OrderState;
+  to: OrderState;
+};
+
+// Orders in a final state are kept around this long for inspection
+const HISTORY_MS = 60 * 60 * 1000;
+
+function isLive(order: ManagedOrder): boolean {
+  return order.state === "open" || order.state === "partiallyFilled";
+}
+
+function mayRest(order: ManagedOrder): boolean {
+  return isLive(order) || order.state === "cancelling";
+}
+
+// Follows the orders of one wallet on one market. Each order gets its own
+// client order id and, unless it rests until canceled, a cancel time. Its
+// state is derived from the book on every reload: an order that leaves the
+// book before its cancel time is treated as filled, one that leaves it
+// afterwards as expired. A canceled
+// order only counts as cancelled once the book no longer has it; if it is
+// still there it goes back to live and is due for cancel again.
+export class OrderManager {
+  private orders: ManagedOrder[] = [];
+  private lastClientOrderId = 0;
+
+  constructor(readonly cancelTime: number) {}
+
+  // Unique per process and increasing across restarts
+  nextClientOrderId(): number {
+    this.lastClientOrderId = Math.max(
+      this.lastClientOrderId + 1,
+      Date.now() * 1000
+    );
+    return this.lastClientOrderId;
+  }
+
+  // How long an order with a cancel time stays valid on chain. The wallet
+  // checks its orders once per cancelTime, so it may only cancel one a whole
+  // cancelTime after it was due; it must not leave the book on its own before
+  // then, or it would be taken for filled.
+  validSeconds(): number {
+    return this.cancelTime * 2;
+  }
+
+  // Orders placed with `restUntilCanceled` have no cancel time and are placed
+  // without a last valid slot: the grid or the market maker that owns them
+  // decides when they go.
+  recordPlaced(
+    order: {
+      clientOrderId: number;
+      side: Side;
+      priceInTicks: number;
+      price: number;
+      reason: string;
+    },
+    restUntilCanceled: boolean = false
+  ): ManagedOrder {
+    const now = Date.now();
+    const managed: ManagedOrder = {
+      ...order,
+      placedAt: now,
+      cancelAt: restUntilCanceled ? undefined : now + this.cancelTime * 1000,
+      state: "pending",
+      filledBaseLots: 0,
+      updatedAt: now,
+    };
+    this.orders.push(managed);
+    return managed;
+  }
+
+  // Updates every tracked order from the trader's orders on the freshly
+  // reloaded book and returns the state changes
+  sync(
+    bookOrders: Phoenix.L3Order[],
+    now: number = Date.now()
+  ): OrderTransition[] {
+    const transitions: OrderTransition[] = [];
+    const setState = (order: ManagedOrder, state: OrderState) => {
+      if (order.state === state) return;
+      transitions.push({ order, from: order.state, to: state });
+      order.state = state;
+      order.updatedAt = now;
+    };
+
+    const bySequenceNumber = new Map<string, Phoenix.L3Order>();
+    bookOrders.forEach((bookOrder) =>
+      bySequenceNumber.set(bookOrder.orderSequenceNumber.toString(), bookOrder)
+    );
+    const known = new Set<string>();
+    this.orders.forEach((order) => {
+      if (order.orderSequenceNumber) known.add(order.orderSequenceNumber);
+    });
+
+    // The book does not carry client order ids, so pending orders are matched
+    // to new book orders by side and price
+    this.orders
+      .filter((order) => order.state === "pending")
+      .forEach((order) => {
+        const match = bookOrders.find(
+          (bookOrder) =>
+            !known.has(bookOrder.orderSequenceNumber.toString()) &&
+            bookOrder.side === order.side &&
+            bookOrder.priceInTicks.toNumber() === order.priceInTicks
+        );
+        if (!match) {
+          // The placement was confirmed but nothing rests on the book
+          setState(order, "filled");
+          return;
+        }
+        order.orderSequenceNumber = match.orderSequenceNumber.toString();
+        order.numBaseLots = match.sizeInBaseLots.toNumber();
+        known.add(order.orderSequenceNumber);
+        setState(order, "open");
+      });
+
+    // Orders left over from a previous run are adopted so they get cancelled
+    // like any other order
+    bookOrders.forEach((bookOrder) => {
+      const sequenceNumber = bookOrder.orderSequenceNumber.toString();
+      if (known.has(sequenceNumber)) return;
+      this.orders.push({
+        clientOrderId: 0,
+        side: bookOrder.side,
+        priceInTicks: bookOrder.priceInTicks.toNumber(),
+        price: 0,
+        reason: "Found on the book",
+        placedAt: now,
+        cancelAt: now + this.cancelTime * 1000,
+        state: "open",
+        orderSequenceNumber: sequenceNumber,
+        numBaseLots: bookOrder.sizeInBaseLots.toNumber(),
+        filledBaseLots: 0,
+        updatedAt: now,
+      });
+    });
+
+    this.orders.filter(mayRest).forEach((order) => {
+      const bookOrder = bySequenceNumber.get(order.orderSequenceNumber!);
+      if (!bookOrder) {
+        if (order.state === "cancelling") {
+          setState(order, "cancelled");
+          return;
+        }
+        if (order.numBaseLots) order.filledBaseLots = order.numBaseLots;
+        setState(
+          order,
+          order.cancelAt !== undefined && now >= order.cancelAt
+            ? "expired"
+            : "filled"
+        );
+        return;
+      }
+      order.bookOrder = bookOrder;
+      const remaining = bookOrder.sizeInBaseLots.toNumber();
+      if (order.numBaseLots !== undefined && remaining < order.numBaseLots) {
+        order.filledBaseLots = order.numBaseLots - remaining;
+      }
+      if (order.state === "cancelling") {
+        // The cancel did not land, cancel it again on the next chance
+        order.cancelAt = Math.min(order.cancelAt ?? now, now);
+        setState(order, order.filledBaseLots > 0 ? "partiallyFilled" : "open");
+      } else if (order.filledBaseLots > 0) {
+        setState(order, "partiallyFilled");
+      }
+    });
+
+    this.orders = this.orders.filter(
+      (order) =>
+        order.state === "pending" ||
+        mayRest(order) ||
+        now - order.updatedAt < HISTORY_MS
+    );
+    return transitions;
+  }
+
+  // Resting orders whose own cancel time has passed
+  dueForCancel(now: number = Date.now()): ManagedOrder[] {
+    return this.orders.filter(
+      (order) =>
+        isLive(order) &&
+        order.bookOrder &&
+        order.cancelAt !== undefined &&
+        now >= order.cancelAt
+    );
+  }
+
+  // Called once the cancel transaction landed. The next sync decides whether
+  // the orders are really gone.
+  markCancelling(orders: ManagedOrder[], now: number = Date.now()) {
+    orders.forEach((order) => {
+      order.state = "cancelling";
+      order.updatedAt = now;
+    });
+  }
+
+  // Whether the order rests on the book, or was reported filled so recently
+  // that its fill events may not have arrived yet
+  mayStillFill(
+    clientOrderId: number,
+    graceMs: number,
+    now: number = Date.now()
+  ): boolean {
+    return this.orders.some(
+      (order) =>
+        order.clientOrderId === clientOrderId &&
+        (order.state === "pending" ||
+          mayRest(order) ||
+          (order.state === "filled" && now - order.updatedAt < graceMs))
+    );
+  }
+
+  // The order a fill belongs to. Taker fills carry the client order id,
+  // maker fills the sequence number. An order that filled before it was
+  // seen on the book is matched by side and price instead.
+  findForFill(fill: {
+    side: Side;
+    priceInTicks: number;
+    orderSequenceNumber?: string;
+    clientOrderId?: number;
+  }): ManagedOrder | undefined {
+    if (fill.clientOrderId) {
+      return this.orders.find(
+        (order) => order.clientOrderId === fill.clientOrderId
+      );
+    }
+    const bySequenceNumber = this.orders.find(
+      (order) => order.orderSequenceNumber === fill.orderSequenceNumber
+    );
+    if (bySequenceNumber) return bySequenceNumber;
+
+    const unseen = this.orders
+      .filter(
+        (order) =>
+          order.orderSequenceNumber === undefined &&
+          order.side === fill.side &&
+          order.priceInTicks === fill.priceInTicks
+      )
+      .pop();
+    if (unseen) unseen.orderSequenceNumber = fill.orderSequenceNumber;
+    return unseen;
+  }
+
+  liveOrders(): ManagedOrder[] {
+    return this.orders.filter(isLive);
+  }
+
+  // Live orders and the ones being canceled, which still lock funds until
+  // the book confirms they are gone
+  restingOrders(): ManagedOrder[] {
+    return this.orders.filter(mayRest);
+  }
+
+  history(): ManagedOrder[] {
+    return [...this.orders];
+  }
+}
+
+export function describeOrder(order: ManagedOrder): string {
+  const id = order.clientOrderId || `seq ${order.orderSequenceNumber}`;
+  return `${Side[order.side]} #${id} @ ${order.priceInTicks} ticks`;
+}
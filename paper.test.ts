@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Connection, Keypair } from "@solana/web3.js";
+import { MarketState, Side } from "@ellipsis-labs/phoenix-sdk";
+import { PaperExchange } from "./paper";
+import { TradeEventInput } from "./fills";
+
+// 1000 ticks per quote unit, 1000 base lots per base unit
+const marketState = {
+  ticksToFloatPrice: (ticks: number) => ticks / 1000,
+  baseLotsToRawBaseUnits: (lots: number) => lots / 1000,
+  quoteLotsToQuoteUnits: (lots: number) => lots / 1_000_000,
+  baseAtomsToBaseLots: (atoms: number) => Math.round(atoms / 1_000_000),
+  data: { header: { baseParams: { decimals: 9 } }, takerFeeBps: 10 },
+} as unknown as MarketState;
+const connection = {} as Connection;
+const balances = { initialSol: 1, initialBase: 0, initialQuote: 100 };
+
+// Rests a 10 USD bid at 100 and fills it
+async function fillBid(exchange: PaperExchange): Promise<TradeEventInput> {
+  const events: TradeEventInput[] = [];
+  exchange.events.on("tradeEvent", (event) => events.push(event));
+  await exchange.placeOrderWithUSD(
+    connection,
+    marketState,
+    Keypair.generate(),
+    Side.Bid,
+    10_000_000,
+    100_000,
+    100
+  );
+  exchange.updatePrice(99);
+  assert.equal(events.length, 1);
+  return events[0];
+}
+
+test("resting orders fill as makers without the taker fee", async () => {
+  const fill = await fillBid(new PaperExchange("SOL/USDC", balances));
+  assert.equal(fill.kind, "fill");
+  assert.equal(fill.role, "maker");
+  assert.equal(fill.size, 0.1);
+  assert.equal(fill.fee, 0);
+});
+
+test("fills of different markets get different signatures", async () => {
+  const sol = await fillBid(new PaperExchange("SOL/USDC", balances));
+  const bonk = await fillBid(new PaperExchange("BONK/USDC", balances));
+  assert.equal(sol.orderSequenceNumber, bonk.orderSequenceNumber);
+  assert.notEqual(sol.signature, bonk.signature);
+});
+
+test("an order crossing the feed price takes it at once with the taker fee", async () => {
+  const exchange = new PaperExchange("SOL/USDC", balances);
+  const events: TradeEventInput[] = [];
+  exchange.events.on("tradeEvent", (event) => events.push(event));
+  exchange.updatePrice(99);
+  const trader = Keypair.generate();
+  // A 10 USD bid at 100, above the feed price
+  await exchange.placeOrderWithUSD(
+    connection,
+    marketState,
+    trader,
+    Side.Bid,
+    10_000_000,
+    100_000,
+    100,
+    7
+  );
+
+  assert.equal(events.length, 1);
+  const fill = events[0];
+  assert.equal(fill.role, "taker");
+  assert.equal(fill.clientOrderId, 7);
+  assert.equal(fill.orderSequenceNumber, undefined);
+  assert.equal(fill.price, 99);
+  assert.ok(Math.abs(fill.fee - 0.0099) < 1e-9);
+  assert.deepEqual(
+    await exchange.getCurrentOrders(marketState, trader.publicKey),
+    []
+  );
+  const balance = await exchange.checkUserBalance(
+    connection,
+    marketState,
+    trader
+  );
+  assert.equal(balance.quoteOpenOrdersBalance, 0);
+  assert.equal(
+    balance.quoteWalletBalance,
+    parseFloat((100 - 9.9 - 0.0099).toFixed(8))
+  );
+});
+
+test("paper quotes go around the feed price", async () => {
+  const exchange = new PaperExchange("SOL/USDC", balances);
+  const trader = Keypair.generate().publicKey;
+  assert.equal(await exchange.getMidPrice(marketState, trader), undefined);
+  exchange.updatePrice(99);
+  assert.equal(await exchange.getMidPrice(marketState, trader), 99);
+});
@@ -0,0 +1,498 @@
+import fs from "fs";
+import path from "path";
+import { EventEmitter } from "events";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import * as Phoenix from "@ellipsis-labs/phoenix-sdk";
+import { MarketState, Side, toBN } from "@ellipsis-labs/phoenix-sdk";
+import { Exchange } from "./exchange";
+import { OrderPlacement, UserBalance } from "./types";
+import { TradeEventInput } from "./fills";
+
+const SLOT_DURATION_MS = 400;
+// Phoenix only charges takers, at the market's takerFeeBps
+const MAKER_FEE_BPS = 0;
+
+type PaperOrder = {
+  orderSequenceNumber: number;
+  clientOrderId: number;
+  side: Side;
+  priceInTicks: number;
+  price: number;
+  numBaseLots: number;
+  size: number; // In base units
+  lastValidSlot: number;
+  expiresAt: number;
+};
+
+type PaperAccount = {
+  sol: number;
+  base: number;
+  quote: number;
+  lockedBase: number;
+  lockedQuote: number;
+  orders: PaperOrder[];
+};
+
+export type PaperBalances = {
+  initialSol: number;
+  initialBase: number;
+  initialQuote: number;
+};
+
+// Paper trading only needs the market's parameters (tick and lot sizes,
+// decimals, fees), so the market account is saved on the first run and read
+// back from disk afterwards. Only that first run needs an RPC.
+export async function loadMarketSnapshot(
+  marketName: string,
+  directory: string,
+  loadFromNetwork: () => Promise<{ address: PublicKey; buffer: Buffer }>
+): Promise<MarketState> {
+  const file = path.join(
+    directory,
+    "markets",
+    `${marketName.replace(/\W+/g, "-")}.json`
+  );
+  if (fs.existsSync(file)) {
+    const snapshot = JSON.parse(fs.readFileSync(file, "utf8"));
+    return MarketState.load({
+      address: new PublicKey(snapshot.address),
+      buffer: Buffer.from(snapshot.data, "base64"),
+    });
+  }
+
+  let account: { address: PublicKey; buffer: Buffer };
+  try {
+    account = await loadFromNetwork();
+  } catch (error) {
+    throw new Error(
+      `No snapshot of ${marketName} in ${file} and the market could not be loaded from the RPC (${
+        error instanceof Error ? error.message : error
+      }). Run paper mode once with RPC access to create it.`
+    );
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(
+    file,
+    JSON.stringify({
+      address: account.address.toBase58(),
+      data: account.buffer.toString("base64"),
+    })
+  );
+  console.log(`[paper] Saved a snapshot of ${marketName} to ${file}.`);
+  return MarketState.load(account);
+}
+
+// In-process stand-in for the Phoenix market. Orders that cross the feed price
+// when placed take it at once, paying the taker fee; the others rest at their
+// priceInTicks and fill at that price, fee free, once the feed crosses them.
+// Fills and expiries are emitted as "tradeEvent" in the shape FillTracker
+// records.
+export class PaperExchange implements Exchange {
+  readonly events = new EventEmitter();
+  private accounts = new Map<string, PaperAccount>();
+  private sequenceNumber = 0;
+  private lastPrice = 0;
+  // Sequence numbers restart with every process, so event signatures also
+  // carry the market and the run to stay unique in the fill store and ledger
+  private runId = Date.now().toString(36);
+
+  constructor(private marketName: string, private balances: PaperBalances) {}
+
+  updatePrice(price: number) {
+    if (!price) return;
+    this.lastPrice = price;
+    this.accounts.forEach((account, trader) => {
+      this.expireOrders(account, trader);
+      account.orders = account.orders.filter((order) => {
+        const crossed =
+          order.side === Side.Bid ? price <= order.price : price >= order.price;
+        if (!crossed) return true;
+        this.fillOrder(account, order, trader, "maker", order.price, 0);
+        return false;
+      });
+    });
+  }
+
+  async getCurrentOrders(
+    marketState: MarketState,
+    traderPublicKey: PublicKey
+  ): Promise<Phoenix.L3Order[]> {
+    const trader = traderPublicKey.toString();
+    const account = this.getAccount(trader);
+    this.expireOrders(account, trader);
+    return account.orders.map((order) => ({
+      priceInTicks: toBN(order.priceInTicks),
+      side: order.side,
+      sizeInBaseLots: toBN(order.numBaseLots),
+      makerPubkey: trader,
+      orderSequenceNumber: toBN(order.orderSequenceNumber),
+      lastValidSlot: toBN(order.lastValidSlot),
+      lastValidUnixTimestampInSeconds: toBN(0),
+    }));
+  }
+
+  // The simulated book is not a real one, and the market snapshot is never
+  // reloaded, so quotes go around the feed price
+  async getMidPrice(
+    marketState: MarketState,
+    traderPublicKey: PublicKey
+  ): Promise<number | undefined> {
+    return this.lastPrice > 0 ? this.lastPrice : undefined;
+  }
+
+  async cancelAllOrders(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair
+  ): Promise<void> {
+    const account = this.getAccount(trader.publicKey.toString());
+    if (account.orders.length === 0) {
+      throw new Error("No open orders to cancel");
+    }
+    account.orders.forEach((order) => this.unlock(account, order));
+    console.log(`[paper] Canceled ${account.orders.length} orders.`);
+    account.orders = [];
+  }
+
+  async cancelOrders(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair,
+    orders: Phoenix.L3Order[]
+  ): Promise<void> {
+    const account = this.getAccount(trader.publicKey.toString());
+    const sequenceNumbers = orders.map((order) =>
+      order.orderSequenceNumber.toNumber()
+    );
+    account.orders = account.orders.filter((order) => {
+      if (!sequenceNumbers.includes(order.orderSequenceNumber)) return true;
+      this.unlock(account, order);
+      return false;
+    });
+    console.log(`[paper] Canceled ${orders.length} orders.`);
+  }
+
+  async checkUserBalance(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair
+  ): Promise<UserBalance> {
+    const account = this.getAccount(trader.publicKey.toString());
+    const price = this.lastPrice;
+    return {
+      solBalance: parseFloat(account.sol.toFixed(8)),
+      baseWalletBalance: parseFloat(account.base.toFixed(8)),
+      quoteWalletBalance: parseFloat(account.quote.toFixed(8)),
+      baseOpenOrdersBalance: parseFloat(
+        (account.lockedBase * price).toFixed(8)
+      ),
+      quoteOpenOrdersBalance: parseFloat(account.lockedQuote.toFixed(8)),
+      totalBaseBalance: parseFloat(
+        ((account.base + account.lockedBase) * price).toFixed(8)
+      ),
+      totalQuoteBalance: parseFloat(
+        (account.quote + account.lockedQuote).toFixed(8)
+      ),
+    };
+  }
+
+  async wrapToken(
+    connection: Connection,
+    trader: Keypair,
+    amount: number,
+    mint: PublicKey,
+    tokenName: string
+  ): Promise<void> {
+    const account = this.getAccount(trader.publicKey.toString());
+    if (account.sol < amount) {
+      throw new Error(
+        `Insufficient SOL balance to wrap ${amount} SOL into wSOL. Available balance: ${account.sol} SOL`
+      );
+    }
+    account.sol -= amount;
+    account.base += amount;
+    console.log(
+      `[paper] ${amount} ${tokenName} has been added to your wallet.`
+    );
+  }
+
+  async placeOrderWithSol(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair,
+    side: Side,
+    volume: number,
+    priceInTicks: number,
+    clientOrderId: number = 0,
+    validSeconds?: number
+  ): Promise<void> {
+    const account = this.getAccount(trader.publicKey.toString());
+    // The live order wraps the SOL it sells in the same transaction
+    const solAmount = marketState.baseLotsToRawBaseUnits(volume);
+    if (account.sol < solAmount) {
+      throw new Error(
+        `Insufficient SOL balance: ${account.sol}, required: ${solAmount}`
+      );
+    }
+    account.sol -= solAmount;
+    account.base += solAmount;
+    this.restOrder(
+      trader.publicKey.toString(),
+      account,
+      marketState,
+      side,
+      volume,
+      priceInTicks,
+      validSeconds,
+      clientOrderId
+    );
+  }
+
+  async placeOrderWithUSD(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair,
+    side: Side,
+    quoteLots: number,
+    priceInTicks: number,
+    currentPrice: number,
+    clientOrderId: number = 0,
+    validSeconds?: number
+  ): Promise<void> {
+    const account = this.getAccount(trader.publicKey.toString());
+    const quoteAmount = marketState.quoteLotsToQuoteUnits(quoteLots);
+    const baseAtoms =
+      (quoteAmount / currentPrice) *
+      10 ** marketState.data.header.baseParams.decimals;
+    const baseLots = marketState.baseAtomsToBaseLots(baseAtoms);
+    this.restOrder(
+      trader.publicKey.toString(),
+      account,
+      marketState,
+      side,
+      baseLots,
+      priceInTicks,
+      validSeconds,
+      clientOrderId
+    );
+  }
+
+  async cancelAndPlace(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair,
+    orders: Phoenix.L3Order[],
+    placement: OrderPlacement
+  ): Promise<void> {
+    // Both take effect at once on the simulated book
+    if (orders.length > 0) {
+      await this.cancelOrders(connection, marketState, trader, orders);
+    }
+    if (placement.kind === "sol") {
+      await this.placeOrderWithSol(
+        connection,
+        marketState,
+        trader,
+        placement.side,
+        placement.volume,
+        placement.priceInTicks,
+        placement.clientOrderId,
+        placement.validSeconds
+      );
+    } else {
+      await this.placeOrderWithUSD(
+        connection,
+        marketState,
+        trader,
+        placement.side,
+        placement.quoteLots,
+        placement.priceInTicks,
+        placement.currentPrice,
+        placement.clientOrderId,
+        placement.validSeconds
+      );
+    }
+  }
+
+  async onboardTrader(
+    connection: Connection,
+    marketState: MarketState,
+    trader: Keypair
+  ): Promise<void> {
+    // Paper wallets trade without a seat
+  }
+
+  async reloadMarket(
+    connection: Connection,
+    marketState: MarketState
+  ): Promise<void> {
+    // Nothing to reload, the simulated book only lives in memory
+  }
+
+  private getAccount(trader: string): PaperAccount {
+    let account = this.accounts.get(trader);
+    if (!account) {
+      account = {
+        sol: this.balances.initialSol,
+        base: this.balances.initialBase,
+        quote: this.balances.initialQuote,
+        lockedBase: 0,
+        lockedQuote: 0,
+        orders: [],
+      };
+      this.accounts.set(trader, account);
+    }
+    return account;
+  }
+
+  private restOrder(
+    trader: string,
+    account: PaperAccount,
+    marketState: MarketState,
+    side: Side,
+    numBaseLots: number,
+    priceInTicks: number,
+    validSeconds: number | undefined,
+    clientOrderId: number
+  ) {
+    const price = marketState.ticksToFloatPrice(priceInTicks);
+    const size = marketState.baseLotsToRawBaseUnits(numBaseLots);
+    if (side === Side.Bid) {
+      if (account.quote < size * price) {
+        throw new Error(
+          `Insufficient quote balance: ${account.quote}, required: ${
+            size * price
+          }`
+        );
+      }
+      account.quote -= size * price;
+      account.lockedQuote += size * price;
+    } else {
+      if (account.base < size) {
+        throw new Error(
+          `Insufficient base balance: ${account.base}, required: ${size}`
+        );
+      }
+      account.base -= size;
+      account.lockedBase += size;
+    }
+
+    this.sequenceNumber++;
+    // Like on Phoenix, a last valid slot of 0 never expires
+    const lastValidSlot =
+      validSeconds === undefined
+        ? 0
+        : Math.floor(Date.now() / SLOT_DURATION_MS) +
+          Math.ceil((validSeconds * 1000) / SLOT_DURATION_MS);
+    const order: PaperOrder = {
+      orderSequenceNumber: this.sequenceNumber,
+      clientOrderId,
+      side,
+      priceInTicks,
+      price,
+      numBaseLots,
+      size,
+      lastValidSlot,
+      expiresAt: lastValidSlot ? lastValidSlot * SLOT_DURATION_MS : Infinity,
+    };
+    const crossed =
+      this.lastPrice > 0 &&
+      (side === Side.Bid ? price >= this.lastPrice : price <= this.lastPrice);
+    if (crossed) {
+      this.fillOrder(
+        account,
+        order,
+        trader,
+        "taker",
+        this.lastPrice,
+        marketState.data.takerFeeBps
+      );
+      return;
+    }
+    account.orders.push(order);
+    console.log(
+      `[paper] Order placed: ${Side[side]} ${size} @ ${price} (${numBaseLots} base lots)`
+    );
+  }
+
+  // Fills the order at `price`, which betters its limit price for takers
+  private fillOrder(
+    account: PaperAccount,
+    order: PaperOrder,
+    trader: string,
+    role: "maker" | "taker",
+    price: number,
+    feeBps: number
+  ) {
+    const notional = order.size * price;
+    const fee =
+      (notional * (role === "maker" ? MAKER_FEE_BPS : feeBps)) / 10_000;
+    if (order.side === Side.Bid) {
+      // The locked amount was reserved at the limit price
+      account.lockedQuote -= order.size * order.price;
+      account.quote += order.size * order.price - notional - fee;
+      account.base += order.size;
+    } else {
+      account.lockedBase -= order.size;
+      account.quote += notional - fee;
+    }
+    console.log(
+      `[paper] ${trader}: ${Side[order.side]} filled ${
+        order.size
+      } @ ${price} as ${role}, fee: ${fee}`
+    );
+    this.emitTradeEvent("fill", order, trader, fee, role, price);
+  }
+
+  private expireOrders(account: PaperAccount, trader: string) {
+    const now = Date.now();
+    account.orders = account.orders.filter((order) => {
+      if (order.expiresAt > now) return true;
+      this.unlock(account, order);
+      console.log(
+        `[paper] ${trader}: order ${order.orderSequenceNumber} expired.`
+      );
+      this.emitTradeEvent("expire", order, trader, 0, undefined, order.price);
+      return false;
+    });
+  }
+
+  private emitTradeEvent(
+    kind: "fill" | "expire",
+    order: PaperOrder,
+    trader: string,
+    fee: number,
+    role: "maker" | "taker" | undefined,
+    price: number
+  ) {
+    const now = Date.now();
+    const event: TradeEventInput = {
+      kind,
+      trader,
+      signature: `paper-${this.marketName}-${this.runId}-${order.orderSequenceNumber}`,
+      slot: Math.floor(now / SLOT_DURATION_MS),
+      timestamp: now,
+      side: order.side,
+      role,
+      // Like Phoenix events, taker fills carry the client order id instead of
+      // the sequence number
+      orderSequenceNumber:
+        role === "taker" ? undefined : order.orderSequenceNumber.toString(),
+      clientOrderId: role === "taker" ? order.clientOrderId : undefined,
+      price,
+      size: order.size,
+      fee,
+    };
+    this.events.emit("tradeEvent", event);
+  }
+
+  private unlock(account: PaperAccount, order: PaperOrder) {
+    if (order.side === Side.Bid) {
+      account.lockedQuote -= order.size * order.price;
+      account.quote += order.size * order.price;
+    } else {
+      account.lockedBase -= order.size;
+      account.base += order.size;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Connection } from "@solana/web3.js";
+import { MarketState } from "@ellipsis-labs/phoenix-sdk";
+import { getCurrentPrice } from "./functions";
+import { CandleFeed } from "./rsi";
+import { config } from "./config";
+
+export type PriceQuote =
+  | {
+      ok: true;
+      price: number;
+      source: "binance" | "phoenix";
+      binancePrice?: number;
+      phoenixPrice?: number;
+    }
+  | {
+      ok: false;
+      reason: string;
+      binancePrice?: number;
+      phoenixPrice?: number;
+    };
+
+// Prices orders off the Binance feed, checked against the Phoenix book mid.
+// Falls back to whichever source is still fresh, and refuses to quote when
+// both are down or they disagree by more than maxDivergencePercent. Without a
+// connection, as in paper mode, only the Binance feed is used.
+export class PriceSource {
+  private phoenixUpdatedAt: number;
+
+  constructor(
+    private feed: CandleFeed,
+    private marketState: MarketState,
+    private connection: Connection | undefined,
+    private settings = config.priceSource
+  ) {
+    // The market state is freshly loaded when the source is created
+    this.phoenixUpdatedAt = Date.now();
+  }
+
+  async getQuote(): Promise<PriceQuote> {
+    const maxAge = this.settings.maxPriceAgeSeconds * 1000;
+    const binancePrice = this.getBinancePrice(maxAge);
+    const phoenixPrice = await this.getPhoenixPrice(maxAge);
+
+    if (binancePrice !== undefined && phoenixPrice !== undefined) {
+      const divergencePercent =
+        (Math.abs(binancePrice - phoenixPrice) / phoenixPrice) * 100;
+      if (divergencePercent > this.settings.maxDivergencePercent) {
+        return {
+          ok: false,
+          reason: `Binance (${binancePrice}) and Phoenix (${phoenixPrice}) prices diverge by ${divergencePercent.toFixed(
+            2
+          )}%, more than ${this.settings.maxDivergencePercent}%`,
+          binancePrice,
+          phoenixPrice,
+        };
+      }
+      return {
+        ok: true,
+        price: binancePrice,
+        source: "binance",
+        binancePrice,
+        phoenixPrice,
+      };
+    }
+    if (binancePrice !== undefined) {
+      return { ok: true, price: binancePrice, source: "binance", binancePrice };
+    }
+    if (phoenixPrice !== undefined) {
+      return { ok: true, price: phoenixPrice, source: "phoenix", phoenixPrice };
+    }
+    return {
+      ok: false,
+      reason: "Both the Binance and the Phoenix price are unavailable or stale",
+    };
+  }
+
+  private getBinancePrice(maxAge: number): number | undefined {
+    if (this.feed.price <= 0) return undefined;
+    if (Date.now() - this.feed.priceUpdatedAt > maxAge) return undefined;
+    return this.feed.price;
+  }
+
+  private async getPhoenixPrice(maxAge: number): Promise<number | undefined> {
+    if (!this.connection) return undefined;
+    if (Date.now() - this.phoenixUpdatedAt > maxAge) {
+      try {
+        await this.marketState.reloadFromNetwork(this.connection);
+        this.phoenixUpdatedAt = Date.now();
+      } catch (error) {
+        console.error("Failed to reload the Phoenix market:", error);
+        return undefined;
+      }
+    }
+    try {
+      const price = await getCurrentPrice(this.marketState);
+      return price > 0 ? price : undefined;
+    } catch (error) {
+      // One side of the book is empty
+      return undefined;
+    }
+  }
+}
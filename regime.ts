@@ -0,0 +1,89 @@
+import { computeIndicators, Indicators } from "./indicators";
+import { config } from "./config";
+
+export type Regime = "sideway" | "trend";
+
+export type RegimeSettings = {
+  method: string; // "adx", "bbWidth" or "wmaSlope"
+  adxTrend: number;
+  adxSideway: number;
+  bbWidthTrend: number;
+  bbWidthSideway: number;
+  wmaSlopePeriod: number;
+  wmaSlopeTrend: number;
+  wmaSlopeSideway: number;
+  confirmCycles: number;
+};
+
+// Classifies the market as sideways or trending each cycle. Every method has
+// separate thresholds to enter and leave a trend, and a new regime must be
+// seen confirmCycles times in a row before it is adopted, so it doesn't flap.
+export class RegimeDetector {
+  regime: Regime = "sideway";
+  measurement: number = NaN;
+  private candidate?: Regime;
+  private candidateCount = 0;
+
+  constructor(private settings: RegimeSettings = config.regime) {}
+
+  update(candles: any[], indicators: Indicators): Regime {
+    this.measurement = this.measure(candles, indicators);
+    const reading = this.classify(this.measurement);
+    if (reading === undefined || reading === this.regime) {
+      this.candidate = undefined;
+      this.candidateCount = 0;
+      return this.regime;
+    }
+
+    if (reading === this.candidate) {
+      this.candidateCount++;
+    } else {
+      this.candidate = reading;
+      this.candidateCount = 1;
+    }
+    if (this.candidateCount >= this.settings.confirmCycles) {
+      this.regime = reading;
+      this.candidate = undefined;
+      this.candidateCount = 0;
+    }
+    return this.regime;
+  }
+
+  describe(): string {
+    return `${this.settings.method} ${this.measurement.toFixed(4)}`;
+  }
+
+  private measure(candles: any[], indicators: Indicators): number {
+    if (this.settings.method === "adx") {
+      return indicators.adx ?? NaN;
+    }
+    if (this.settings.method === "bbWidth") {
+      return indicators.bbWidth ?? NaN;
+    }
+    if (this.settings.method === "wmaSlope") {
+      // Average change of the RSI's WMA per candle, in RSI points
+      const period = this.settings.wmaSlopePeriod;
+      if (candles.length <= period) return NaN;
+      const earlier = computeIndicators(
+        candles.slice(0, -period),
+        candles[candles.length - period - 1].closePrice
+      );
+      return Math.abs((indicators.wma - earlier.wma) / period);
+    }
+    throw new Error(`Unknown regime method "${this.settings.method}"`);
+  }
+
+  // Readings between the two thresholds keep the current regime
+  private classify(measurement: number): Regime | undefined {
+    if (isNaN(measurement)) return undefined;
+    const [trend, sideway] =
+      this.settings.method === "adx"
+        ? [this.settings.adxTrend, this.settings.adxSideway]
+        : this.settings.method === "bbWidth"
+        ? [this.settings.bbWidthTrend, this.settings.bbWidthSideway]
+        : [this.settings.wmaSlopeTrend, this.settings.wmaSlopeSideway];
+    if (measurement >= trend) return "trend";
+    if (measurement <= sideway) return "sideway";
+    return undefined;
+  }
+}
@@ -0,0 +1,115 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { resetHalts, RiskLimits, RiskManager, RiskState } from "./risk";
+import { config } from "./config";
+import { tempDirectory } from "./testing";
+
+const noLimits: RiskLimits = {
+  maxBaseInventory: 0,
+  maxQuoteExposure: 0,
+  maxOpenOrders: 0,
+  maxOrdersPerHour: 0,
+  maxDailyLoss: 0,
+  cancelOnBreach: false,
+};
+
+function tempStateFile(): string {
+  return path.join(tempDirectory("risk"), "risk.json");
+}
+
+function riskManager(
+  limits: Partial<RiskLimits>,
+  stateFile: string = tempStateFile()
+): RiskManager {
+  return new RiskManager(
+    "wallet",
+    "SOL/USDC",
+    { ...noLimits, ...limits },
+    stateFile
+  );
+}
+
+const flat: RiskState = { baseInventory: 0, openOrders: [], dailyPnl: 0 };
+const bid = { side: Side.Bid, price: 100, size: 1 };
+const ask = { side: Side.Ask, price: 100, size: 1 };
+
+test("the default limits let every order through", () => {
+  const risk = riskManager({
+    maxBaseInventory: config.risk.maxBaseInventory,
+    maxQuoteExposure: config.risk.maxQuoteExposure,
+    maxOpenOrders: config.risk.maxOpenOrders,
+    maxOrdersPerHour: config.risk.maxOrdersPerHour,
+    maxDailyLoss: config.risk.maxDailyLoss,
+  });
+  const state = {
+    baseInventory: 1000,
+    openOrders: Array(100).fill(bid),
+    dailyPnl: -1000,
+  };
+  assert.deepEqual(risk.check(bid, state), { ok: true });
+  assert.equal(risk.halted(), undefined);
+});
+
+test("an order that would exceed a limit is rejected without halting", () => {
+  const risk = riskManager({ maxBaseInventory: 1.5 });
+  const check = risk.check(bid, { ...flat, baseInventory: 1 });
+  assert.equal(check.ok, false);
+  assert.equal(!check.ok && check.limit, "maxBaseInventory");
+  assert.equal(!check.ok && check.breach, false);
+  assert.equal(risk.halted(), undefined);
+  // Asks reduce the inventory and pass
+  assert.equal(risk.check(ask, { ...flat, baseInventory: 1 }).ok, true);
+});
+
+test("a breached limit halts the wallet until it is reset", () => {
+  const stateFile = tempStateFile();
+  const risk = riskManager({ maxDailyLoss: 10 }, stateFile);
+  const check = risk.check(ask, { ...flat, dailyPnl: -12 });
+  assert.equal(!check.ok && check.breach, true);
+  assert.equal(risk.halted()?.limit, "maxDailyLoss");
+  // Halted wallets stay halted whatever the state
+  assert.equal(risk.check(ask, flat).ok, false);
+
+  assert.deepEqual(resetHalts({ wallet: "wallet" }, stateFile), [
+    "wallet SOL/USDC",
+  ]);
+  assert.equal(risk.check(ask, flat).ok, true);
+});
+
+test("quote exposure counts resting bids and the new one", () => {
+  const risk = riskManager({ maxQuoteExposure: 250 });
+  assert.equal(risk.check(bid, { ...flat, openOrders: [bid] }).ok, true);
+  const check = risk.check(bid, { ...flat, openOrders: [bid, bid] });
+  assert.equal(!check.ok && check.limit, "maxQuoteExposure");
+});
+
+test("open orders and the hourly order rate are capped", () => {
+  const risk = riskManager({ maxOpenOrders: 2, maxOrdersPerHour: 2 });
+  assert.equal(risk.check(ask, { ...flat, openOrders: [ask] }).ok, true);
+  const full = risk.check(ask, { ...flat, openOrders: [ask, ask] });
+  assert.equal(!full.ok && full.limit, "maxOpenOrders");
+
+  const now = Date.now();
+  risk.recordOrder(now - 2 * 60 * 60 * 1000);
+  risk.recordOrder(now - 1000);
+  assert.equal(risk.check(ask, flat, now).ok, true);
+  risk.recordOrder(now);
+  const rate = risk.check(ask, flat, now);
+  assert.equal(!rate.ok && rate.limit, "maxOrdersPerHour");
+});
+
+test("an inventory halt stops bids but lets asks through", () => {
+  const risk = riskManager({ maxBaseInventory: 1.5 });
+  const check = risk.check(bid, { ...flat, baseInventory: 2 });
+  assert.equal(!check.ok && check.breach, true);
+  assert.equal(risk.halted()?.limit, "maxBaseInventory");
+
+  assert.equal(risk.haltedFor(Side.Bid)?.limit, "maxBaseInventory");
+  assert.equal(risk.haltedFor(Side.Ask), undefined);
+  assert.equal(risk.check(bid, flat).ok, false);
+  assert.deepEqual(risk.check(ask, { ...flat, baseInventory: 2 }), {
+    ok: true,
+  });
+});
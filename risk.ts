@@ -0,0 +1,295 @@
+import fs from "fs";
+import path from "path";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { config } from "./config";
+import { parseArgs } from "./args";
+
+export type RiskLimits = {
+  maxBaseInventory: number;
+  maxQuoteExposure: number;
+  maxOpenOrders: number;
+  maxOrdersPerHour: number;
+  maxDailyLoss: number;
+  cancelOnBreach: boolean;
+};
+
+export type RiskLimitName =
+  | "maxBaseInventory"
+  | "maxQuoteExposure"
+  | "maxOpenOrders"
+  | "maxOrdersPerHour"
+  | "maxDailyLoss";
+
+export type OrderRequest = {
+  side: Side;
+  price: number;
+  size: number; // In base units
+};
+
+export type RiskState = {
+  baseInventory: number; // Base held by the wallet, in base units
+  openOrders: OrderRequest[]; // Resting orders, with their remaining size
+  dailyPnl: number; // Realized PnL minus fees since UTC midnight
+};
+
+export type RiskCheck =
+  | { ok: true }
+  | {
+      ok: false;
+      limit: RiskLimitName;
+      reason: string;
+      breach: boolean; // The wallet is already past the limit and is halted
+    };
+
+type Halt = { limit: RiskLimitName; reason: string; haltedAt: number };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Limits that only bids can push further past, so halts on them let asks
+// through to bring the wallet back within them
+const BID_LIMITS: RiskLimitName[] = ["maxBaseInventory", "maxQuoteExposure"];
+
+function readHalts(stateFile: string): { [key: string]: Halt } {
+  if (!fs.existsSync(stateFile)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(stateFile, "utf8"));
+  } catch (error) {
+    console.error(`Could not read ${stateFile}:`, error);
+    return {};
+  }
+}
+
+function writeHalts(stateFile: string, halts: { [key: string]: Halt }) {
+  fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+  fs.writeFileSync(stateFile, JSON.stringify(halts, null, 2));
+}
+
+function haltKey(wallet: string, market: string): string {
+  return `${wallet} ${market}`;
+}
+
+export function startOfUtcDay(now: number = Date.now()): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+// Gate every order of one wallet on one market has to pass. Halts are kept
+// in the state file rather than in memory, so a restart does not lift them
+// and a reset from the command line takes effect on the next cycle.
+export class RiskManager {
+  private placedAt: number[] = [];
+
+  constructor(
+    readonly wallet: string,
+    readonly market: string,
+    private limits: RiskLimits = config.risk,
+    private stateFile: string = config.risk.stateFile
+  ) {}
+
+  get cancelOnBreach(): boolean {
+    return this.limits.cancelOnBreach;
+  }
+
+  halted(): Halt | undefined {
+    return readHalts(this.stateFile)[haltKey(this.wallet, this.market)];
+  }
+
+  // The halt that stops orders on `side`, if any
+  haltedFor(side: Side): Halt | undefined {
+    const halt = this.halted();
+    if (halt && side === Side.Ask && BID_LIMITS.includes(halt.limit)) {
+      return undefined;
+    }
+    return halt;
+  }
+
+  check(
+    order: OrderRequest,
+    state: RiskState,
+    now: number = Date.now()
+  ): RiskCheck {
+    const halt = this.haltedFor(order.side);
+    if (halt) {
+      return {
+        ok: false,
+        limit: halt.limit,
+        reason: halt.reason,
+        breach: true,
+      };
+    }
+
+    const check = this.checkLimits(order, state, now);
+    if (!check.ok && check.breach) {
+      const halts = readHalts(this.stateFile);
+      halts[haltKey(this.wallet, this.market)] = {
+        limit: check.limit,
+        reason: check.reason,
+        haltedAt: now,
+      };
+      writeHalts(this.stateFile, halts);
+    }
+    return check;
+  }
+
+  recordOrder(now: number = Date.now()) {
+    this.placedAt.push(now);
+  }
+
+  private checkLimits(
+    order: OrderRequest,
+    state: RiskState,
+    now: number
+  ): RiskCheck {
+    const limits = this.limits;
+    const reject = (
+      limit: RiskLimitName,
+      reason: string,
+      breach: boolean
+    ): RiskCheck => ({ ok: false, limit, reason, breach });
+
+    if (limits.maxDailyLoss && -state.dailyPnl >= limits.maxDailyLoss) {
+      return reject(
+        "maxDailyLoss",
+        `Daily realized loss ${(-state.dailyPnl).toFixed(
+          4
+        )} reached the limit of ${limits.maxDailyLoss}`,
+        true
+      );
+    }
+
+    if (limits.maxBaseInventory && order.side === Side.Bid) {
+      if (state.baseInventory > limits.maxBaseInventory) {
+        return reject(
+          "maxBaseInventory",
+          `Base inventory ${state.baseInventory} is above the limit of ${limits.maxBaseInventory}`,
+          true
+        );
+      }
+      const openBids = state.openOrders
+        .filter((open) => open.side === Side.Bid)
+        .reduce((sum, open) => sum + open.size, 0);
+      const projected = state.baseInventory + openBids + order.size;
+      if (projected > limits.maxBaseInventory) {
+        return reject(
+          "maxBaseInventory",
+          `Base inventory would reach ${projected.toFixed(
+            6
+          )} with resting bids, limit ${limits.maxBaseInventory}`,
+          false
+        );
+      }
+    }
+
+    if (limits.maxQuoteExposure && order.side === Side.Bid) {
+      const exposure = state.openOrders
+        .filter((open) => open.side === Side.Bid)
+        .reduce((sum, open) => sum + open.price * open.size, 0);
+      if (exposure > limits.maxQuoteExposure) {
+        return reject(
+          "maxQuoteExposure",
+          `Quote in resting bids ${exposure.toFixed(4)} is above the limit of ${
+            limits.maxQuoteExposure
+          }`,
+          true
+        );
+      }
+      const projected = exposure + order.price * order.size;
+      if (projected > limits.maxQuoteExposure) {
+        return reject(
+          "maxQuoteExposure",
+          `Quote in resting bids would reach ${projected.toFixed(4)}, limit ${
+            limits.maxQuoteExposure
+          }`,
+          false
+        );
+      }
+    }
+
+    if (limits.maxOpenOrders) {
+      const openOrders = state.openOrders.length;
+      if (openOrders > limits.maxOpenOrders) {
+        return reject(
+          "maxOpenOrders",
+          `${openOrders} open orders is above the limit of ${limits.maxOpenOrders}`,
+          true
+        );
+      }
+      if (openOrders + 1 > limits.maxOpenOrders) {
+        return reject(
+          "maxOpenOrders",
+          `${openOrders} orders already open, limit ${limits.maxOpenOrders}`,
+          false
+        );
+      }
+    }
+
+    if (limits.maxOrdersPerHour) {
+      this.placedAt = this.placedAt.filter((at) => now - at < HOUR_MS);
+      if (this.placedAt.length >= limits.maxOrdersPerHour) {
+        return reject(
+          "maxOrdersPerHour",
+          `${this.placedAt.length} orders placed in the last hour, limit ${limits.maxOrdersPerHour}`,
+          false
+        );
+      }
+    }
+
+    return { ok: true };
+  }
+}
+
+// Lifts halts. Without a wallet or market every matching halt is lifted.
+export function resetHalts(
+  filter: { wallet?: string; market?: string },
+  stateFile: string = config.risk.stateFile
+): string[] {
+  const halts = readHalts(stateFile);
+  const lifted = Object.keys(halts).filter(
+    (key) =>
+      (!filter.wallet || key.startsWith(`${filter.wallet} `)) &&
+      (!filter.market || key.endsWith(` ${filter.market}`))
+  );
+  lifted.forEach((key) => delete halts[key]);
+  writeHalts(stateFile, halts);
+  return lifted;
+}
+
+function main() {
+  const {
+    args,
+    positional: [command],
+  } = parseArgs(process.argv.slice(2), ["paper"]);
+  const stateFile = args.paper
+    ? path.join(config.paper.directory, "risk.json")
+    : config.risk.stateFile;
+
+  if (command === "status") {
+    const halts = readHalts(stateFile);
+    const keys = Object.keys(halts);
+    if (keys.length === 0) console.log("No wallet is halted.");
+    keys.forEach((key) =>
+      console.log(
+        `${key}: halted at ${new Date(halts[key].haltedAt).toISOString()} by ${
+          halts[key].limit
+        }: ${halts[key].reason}`
+      )
+    );
+  } else if (command === "reset") {
+    const lifted = resetHalts(
+      { wallet: args.wallet, market: args.market },
+      stateFile
+    );
+    console.log(
+      lifted.length > 0 ? `Lifted: ${lifted.join(", ")}` : "Nothing to reset."
+    );
+  } else {
+    console.error(
+      "Usage: ts-node risk.ts status|reset [--wallet <public key>] [--market SOL/USDC] [--paper]"
+    );
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
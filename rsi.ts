@@ -1,6 +1,4 @@
 import axios from "axios";
-import { RSI, WMA, EMA } from "technicalindicators";
-import { placeOrder } from "./functions";
 import {
   Connection,
   PublicKey,
@@ -11,180 +9,342 @@ import { MarketState, Side } from "@ellipsis-labs/phoenix-sdk";
 import { config } from "./config";
 import { EventEmitter } from "events";
 import WebSocket from "ws";
+import { appendCandleSticks, loadCandleSticks } from "./candleStore";
+import { computeIndicators, Indicators } from "./indicators";
 
 const BASE_API_URL = "https://api.binance.com";
 const BASE_WS_URL = "wss://stream.binance.com:9443";
 const MAX_CANDLE_STICKS_LENGTH = 200;
 
-let candleSticks: any[] = [];
-let activeCandleStickWebSockets: WebSocket[] = [];
-let activePriceWebSockets: WebSocket[] = [];
-let priceStream: number = 0;
-const events = new EventEmitter();
+// One live candle and price feed for a symbol/interval pair. Each instance
+// owns its buffer, websockets and reconnect state, and emits "ready",
+// "newCandleStick", "backfill" and "price" on its own events emitter.
+class CandleFeed {
+  readonly events = new EventEmitter();
+  candleSticks: any[] = [];
+  price: number = 0;
+  priceUpdatedAt: number = 0; // Unix time in milliseconds
+  candleStickUpdatedAt: number = 0; // Unix time in milliseconds
+  // Last tick that moved more than config.guard.maxPriceJumpPercent
+  priceJump?: { from: number; to: number; at: number };
+  private candleStickWebSocket?: WebSocket;
+  private priceWebSocket?: WebSocket;
+  private candleStickReconnectAttempts = 0;
+  private candleStickReconnecting = false;
+  private priceReconnectAttempts = 0;
+  private priceReconnecting = false;
+  private pendingCandleStick: Promise<void> = Promise.resolve();
+  private lastStoredOpenTime = 0;
+  // Resolves once the first candles are loaded from the store and the API
+  ready: Promise<void> = Promise.resolve();
 
-async function initFirstCandleSticks(symbol: string, interval: string) {
-  try {
-    const res = await axios.get(
-      `${BASE_API_URL}/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${MAX_CANDLE_STICKS_LENGTH}`
-    );
-    let candleSticksAPI = candleStickFromAPIData(res.data);
-    if (candleSticks.length === 0) {
-      candleSticksAPI.pop();
-      candleSticks = candleSticksAPI;
-    } else {
-      const firstCandleStick = candleSticks[0];
-      candleSticksAPI = candleSticksAPI.filter(
-        (candle) => candle.openTime > firstCandleStick.openTime
+  constructor(readonly symbol: string, readonly interval: string) {}
+
+  start() {
+    this.ready = this.initFirstCandleSticks();
+    this.initCandleStickWS();
+    this.initPriceWS();
+  }
+
+  async initFirstCandleSticks() {
+    // Warm start from the local store, then only fetch the missing tail
+    const storedCandleSticks = loadCandleSticks(this.symbol, this.interval);
+    if (storedCandleSticks.length > 0) {
+      this.lastStoredOpenTime =
+        storedCandleSticks[storedCandleSticks.length - 1].openTime;
+      this.mergeCandleSticks(storedCandleSticks);
+    }
+    const lastCandleStick = this.candleSticks[this.candleSticks.length - 1];
+    const limit = lastCandleStick
+      ? Math.min(
+          MAX_CANDLE_STICKS_LENGTH,
+          Math.ceil(
+            (Date.now() - lastCandleStick.closeTime) /
+              intervalToMilliseconds(this.interval)
+          ) + 1
+        )
+      : MAX_CANDLE_STICKS_LENGTH;
+    if (storedCandleSticks.length > 0) {
+      console.log(
+        `Loaded ${storedCandleSticks.length} stored ${this.symbol} ${this.interval} candlesticks, fetching the last ${limit} from the API.`
       );
-      candleSticks = [...candleSticksAPI, ...candleSticks];
     }
-    events.emit("ready", candleSticks);
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`Failed to fetch candlesticks: ${error.message}`);
-    } else {
-      console.error(`Failed to fetch candlesticks: ${error}`);
+
+    try {
+      const res = await axios.get(
+        `${BASE_API_URL}/api/v3/klines?symbol=${this.symbol}&interval=${this.interval}&limit=${limit}`
+      );
+      // Drop the candle that is still open
+      const now = Date.now();
+      const candleSticksAPI = candleStickFromAPIData(res.data).filter(
+        (candle) => candle.closeTime < now
+      );
+      this.mergeCandleSticks(candleSticksAPI);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(`Failed to fetch candlesticks: ${error.message}`);
+      } else {
+        console.error(`Failed to fetch candlesticks: ${error}`);
+      }
     }
+    this.events.emit("ready", this.candleSticks);
   }
-}
 
-function initCandleStickWS(symbol: string, interval: string) {
-  // Close any existing WebSocket connections for candlesticks
-  activeCandleStickWebSockets.forEach((ws) => {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.close();
+  initCandleStickWS() {
+    // Close any existing WebSocket connection for candlesticks
+    if (this.candleStickWebSocket?.readyState === WebSocket.OPEN) {
+      this.candleStickWebSocket.close();
     }
-  });
-  activeCandleStickWebSockets = [];
-
-  const ws = new WebSocket(
-    `${BASE_WS_URL}/ws/${symbol.toLowerCase()}@kline_${interval}`
-  );
-
-  activeCandleStickWebSockets.push(ws);
-  let reconnectAttempts = 0;
-  let reconnecting = false;
-
-  const reconnect = () => {
-    if (reconnecting) return;
-    reconnecting = true;
-    reconnectAttempts++;
-    setTimeout(() => {
-      initCandleStickWS(symbol, interval);
-      reconnecting = false;
-    }, Math.min(1000 * reconnectAttempts, 30000));
-  };
 
-  const sendPing = () => {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.ping();
-      console.log("Sent ping to WebSocket server.");
-    }
-  };
+    const ws = new WebSocket(
+      `${BASE_WS_URL}/ws/${this.symbol.toLowerCase()}@kline_${this.interval}`
+    );
+    this.candleStickWebSocket = ws;
 
-  const pingInterval = setInterval(sendPing, 3 * 60 * 1000); // Send ping every 3 minutes
+    const reconnect = () => {
+      if (this.candleStickReconnecting) return;
+      this.candleStickReconnecting = true;
+      this.candleStickReconnectAttempts++;
+      setTimeout(() => {
+        this.initCandleStickWS();
+        this.candleStickReconnecting = false;
+      }, Math.min(1000 * this.candleStickReconnectAttempts, 30000));
+    };
 
-  ws.on("open", () => {
-    console.log("WebSocket for fetching candlesticks connection opened.");
-    reconnectAttempts = 0;
-  });
+    const sendPing = () => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.ping();
+        console.log("Sent ping to WebSocket server.");
+      }
+    };
 
-  ws.on("message", (data: any) => {
-    const message = JSON.parse(data.toString());
-    // console.log("Received message:", message); // Log the received message
-    if (message.ping) {
-      ws.send(JSON.stringify({ pong: message.ping }));
-    }
-    if (!message.k || !message.k.x) return;
-    const candle = candleSticksFromWSData(message);
-    // console.log("Fetched candlestick:", candle); // Log the fetched candlestick
-    const success = addCandleStick(candle);
-    // console.log("Candlestick added:", success); // Log if the candlestick was added successfully
-    if (!success) {
-      console.log("Reconnecting due to candlestick not being added.");
+    const pingInterval = setInterval(sendPing, 3 * 60 * 1000); // Send ping every 3 minutes
+
+    ws.on("open", () => {
+      console.log(
+        `WebSocket for fetching ${this.symbol} ${this.interval} candlesticks connection opened.`
+      );
+      this.candleStickReconnectAttempts = 0;
+    });
+
+    ws.on("message", (data: any) => {
+      const message = JSON.parse(data.toString());
+      if (message.ping) {
+        ws.send(JSON.stringify({ pong: message.ping }));
+      }
+      if (!message.k || !message.k.x) return;
+      const candle = candleSticksFromWSData(message);
+      // Chain candles so a slow backfill can't reorder the ones behind it
+      this.pendingCandleStick = this.pendingCandleStick
+        .then(async () => {
+          await this.backfillGap(candle);
+          const success = this.addCandleStick(candle);
+          if (!success) {
+            console.log("Reconnecting due to candlestick not being added.");
+            reconnect();
+          }
+          this.events.emit("newCandleStick", [...this.candleSticks]);
+        })
+        .catch((error) => {
+          console.error("Error handling candlestick:", error);
+        });
+    });
+
+    ws.on("close", () => {
+      console.log(
+        "WebSocket for fetching candlesticks connection closed. Starting connection again..."
+      );
+      clearInterval(pingInterval);
+      reconnect();
+    });
+
+    ws.on("error", (err: any) => {
+      console.error("WebSocket error:", err);
+      clearInterval(pingInterval);
       reconnect();
+    });
+  }
+
+  initPriceWS() {
+    // Close any existing WebSocket connection for price
+    if (this.priceWebSocket?.readyState === WebSocket.OPEN) {
+      this.priceWebSocket.close();
     }
-    events.emit("newCandleStick", [...candleSticks]);
-  });
 
-  ws.on("close", () => {
-    console.log(
-      "WebSocket for fetching candlesticks connection closed. Starting connection again..."
+    const ws = new WebSocket(
+      `${BASE_WS_URL}/ws/${this.symbol.toLowerCase()}@ticker`
     );
-    clearInterval(pingInterval);
-    reconnect();
-  });
-
-  ws.on("error", (err: any) => {
-    console.error("WebSocket error:", err);
-    clearInterval(pingInterval);
-    reconnect();
-  });
-}
+    this.priceWebSocket = ws;
 
-function initPriceWS(pair: string) {
-  // Close any existing WebSocket connections for price
-  activePriceWebSockets.forEach((ws) => {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.close();
-    }
-  });
-  activePriceWebSockets = [];
-
-  const ws = new WebSocket(`${BASE_WS_URL}/ws/!ticker@arr`);
-  activePriceWebSockets.push(ws);
-  let reconnectAttempts = 0;
-  let reconnecting = false;
-
-  const reconnect = () => {
-    if (reconnecting) return;
-    reconnecting = true;
-    reconnectAttempts++;
-    console.info(`Reconnecting to price WS... Attempt ${reconnectAttempts}`);
-    setTimeout(() => {
-      initPriceWS(pair);
-      reconnecting = false;
-    }, Math.min(1000 * reconnectAttempts, 30000));
-  };
+    const reconnect = () => {
+      if (this.priceReconnecting) return;
+      this.priceReconnecting = true;
+      this.priceReconnectAttempts++;
+      console.info(
+        `Reconnecting to price WS... Attempt ${this.priceReconnectAttempts}`
+      );
+      setTimeout(() => {
+        this.initPriceWS();
+        this.priceReconnecting = false;
+      }, Math.min(1000 * this.priceReconnectAttempts, 30000));
+    };
 
-  const sendPing = () => {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.ping();
-      console.log("Sent ping to WebSocket fetch price server.");
-    }
-  };
+    const sendPing = () => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.ping();
+        console.log("Sent ping to WebSocket fetch price server.");
+      }
+    };
 
-  const pingInterval = setInterval(sendPing, 3 * 60 * 1000); // Send ping every 3 minutes
+    const pingInterval = setInterval(sendPing, 3 * 60 * 1000); // Send ping every 3 minutes
 
-  ws.on("message", (data: any) => {
-    const messages = JSON.parse(data.toString());
-    messages.forEach((message: any) => {
-      const symbol = message.s;
+    ws.on("message", (data: any) => {
+      const message = JSON.parse(data.toString());
+      if (message.s !== this.symbol) return;
       const price = parseFloat(message.c);
-      if (pair === symbol) {
-        priceStream = price;
+      if (
+        this.price > 0 &&
+        (Math.abs(price - this.price) / this.price) * 100 >
+          config.guard.maxPriceJumpPercent
+      ) {
+        console.warn(
+          `Implausible ${this.symbol} price jump from ${this.price} to ${price}.`
+        );
+        this.priceJump = { from: this.price, to: price, at: Date.now() };
       }
+      this.price = price;
+      this.priceUpdatedAt = Date.now();
+      this.events.emit("price", this.price);
+    });
+
+    ws.on("open", () => {
+      console.info(`Price WebSocket for ${this.symbol} connection opened.`);
+      this.priceReconnectAttempts = 0;
+    });
+
+    ws.on("close", () => {
+      console.warn(
+        `Price WebSocket connection for ${this.symbol} closed. Reconnecting...`
+      );
+      clearInterval(pingInterval);
+      reconnect();
+    });
+
+    ws.on("error", (err) => {
+      console.error(`Price WebSocket for ${this.symbol} error:`, err);
+      clearInterval(pingInterval);
+      reconnect();
     });
-  });
+  }
+
+  // Fills the candles missing between the last stored one and `candleStick`
+  // from the REST API, e.g. after the websocket was down for a few intervals.
+  // Returns how many candles were repaired.
+  async backfillGap(candleStick: any): Promise<number> {
+    if (this.candleSticks.length === 0) return 0;
+    const lastCandleStick = this.candleSticks[this.candleSticks.length - 1];
+    if (candleStick.openTime <= lastCandleStick.closeTime + 1) return 0;
+
+    try {
+      const res = await axios.get(
+        `${BASE_API_URL}/api/v3/klines?symbol=${this.symbol}&interval=${
+          this.interval
+        }&startTime=${lastCandleStick.closeTime + 1}&endTime=${
+          candleStick.openTime - 1
+        }&limit=1000`
+      );
+      const missingCandleSticks = candleStickFromAPIData(res.data).filter(
+        (candle) =>
+          candle.openTime > lastCandleStick.openTime &&
+          candle.closeTime < candleStick.openTime
+      );
+      missingCandleSticks.forEach((candle) => this.addCandleStick(candle));
+      console.log(
+        `Repaired ${missingCandleSticks.length} missing ${this.symbol} ${this.interval} candlesticks.`
+      );
+      this.events.emit("backfill", missingCandleSticks.length);
+      return missingCandleSticks.length;
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(`Failed to backfill candlesticks: ${error.message}`);
+      } else {
+        console.error(`Failed to backfill candlesticks: ${error}`);
+      }
+      return 0;
+    }
+  }
+
+  addCandleStick(candleStick: any) {
+    if (this.candleSticks.length === 0) {
+      this.candleSticks.push(candleStick);
+      return true;
+    }
+    const lastCandleStick = this.candleSticks[this.candleSticks.length - 1];
+    if (lastCandleStick.openTime >= candleStick.openTime) {
+      console.log(
+        "Candlestick not added: openTime is not greater than last candlestick's closeTime."
+      );
+      return false;
+    }
+    this.candleSticks.push(candleStick);
+    if (this.candleSticks.length > MAX_CANDLE_STICKS_LENGTH) {
+      this.candleSticks.shift();
+    }
+    this.candleStickUpdatedAt = Date.now();
+    this.storeCandleSticks([candleStick]);
+    return true;
+  }
 
-  ws.on("open", () => {
-    console.info(`Price WebSocket for ${pair} connection opened.`);
-    reconnectAttempts = 0;
-  });
+  // Merges candles into the buffer by openTime, keeping the newest ones
+  private mergeCandleSticks(candleSticks: any[]) {
+    const byOpenTime = new Map<number, any>();
+    [...this.candleSticks, ...candleSticks].forEach((candle) =>
+      byOpenTime.set(candle.openTime, candle)
+    );
+    this.candleSticks = Array.from(byOpenTime.values())
+      .sort((a, b) => a.openTime - b.openTime)
+      .slice(-MAX_CANDLE_STICKS_LENGTH);
+    this.candleStickUpdatedAt = Date.now();
+    this.storeCandleSticks(this.candleSticks);
+  }
 
-  ws.on("close", () => {
-    console.warn(
-      `Price WebSocket connection for ${pair} closed. Reconnecting...`
+  // Appends the candles that are not on disk yet
+  private storeCandleSticks(candleSticks: any[]) {
+    const newCandleSticks = candleSticks.filter(
+      (candle) => candle.openTime > this.lastStoredOpenTime
     );
-    clearInterval(pingInterval);
-    reconnect();
-  });
-
-  ws.on("error", (err) => {
-    console.error(`Price WebSocket for ${pair} error:`, err);
-    clearInterval(pingInterval);
-    reconnect();
-  });
+    if (newCandleSticks.length === 0) return;
+    appendCandleSticks(this.symbol, this.interval, newCandleSticks);
+    this.lastStoredOpenTime =
+      newCandleSticks[newCandleSticks.length - 1].openTime;
+  }
+}
+
+function intervalToMilliseconds(interval: string): number {
+  const units: { [unit: string]: number } = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+    M: 30 * 24 * 60 * 60 * 1000,
+  };
+  return parseInt(interval) * units[interval.slice(-1)];
+}
+
+const candleFeeds = new Map<string, CandleFeed>();
+
+// Returns the shared feed for a symbol/interval pair, creating and starting it
+// on first use so the same stream is never opened twice
+function getCandleFeed(symbol: string, interval: string): CandleFeed {
+  const key = `${symbol}@${interval}`;
+  let feed = candleFeeds.get(key);
+  if (!feed) {
+    feed = new CandleFeed(symbol, interval);
+    feed.start();
+    candleFeeds.set(key, feed);
+  }
+  return feed;
 }
 
 function candleStickFromAPIData(data: any[]) {
@@ -210,72 +370,31 @@ function candleSticksFromWSData(message: any) {
   };
 }
 
-function addCandleStick(candleStick: any) {
-  if (candleSticks.length === 0) {
-    candleSticks.push(candleStick);
-    return true;
-  }
-  const lastCandleStick = candleSticks[candleSticks.length - 1];
-  if (lastCandleStick.openTime >= candleStick.openTime) {
-    console.log(
-      "Candlestick not added: openTime is not greater than last candlestick's closeTime."
-    );
-    return false;
-  }
-  candleSticks.push(candleStick);
-  if (candleSticks.length > MAX_CANDLE_STICKS_LENGTH) {
-    candleSticks.shift();
-  }
-  return true;
-}
-
-async function calculateRSI(marketState: MarketState, period = 14) {
-  if (candleSticks.length < period) {
-    throw new Error("Not enough data to calculate RSI");
-  }
-  const closes = candleSticks.map((candle) => candle.closePrice);
-  let allPrices = [...closes, priceStream];
-  const rsiValues = RSI.calculate({ values: allPrices, period });
-  for (let i = period; i < candleSticks.length; i++) {
-    candleSticks[i].rsi = rsiValues[i - period];
-  }
-  return { rsi: rsiValues[rsiValues.length - 1], rsiValues: rsiValues };
-}
-
-function calculateWMA(data: number[], period: number) {
-  const wmaValues = WMA.calculate({ values: data, period });
-  return wmaValues[wmaValues.length - 1];
-}
-
-function calculateEMA(data: number[], period: number) {
-  const emaValues = EMA.calculate({ values: data, period });
-  return emaValues[emaValues.length - 1];
-}
-
-async function calculateIndicators(marketState: MarketState) {
+async function calculateIndicators(feed: CandleFeed): Promise<Indicators> {
   try {
-    let { rsi, rsiValues } = await calculateRSI(marketState);
-    let wma45 = rsiValues.length >= 45 ? calculateWMA(rsiValues, 45) : NaN;
-    let ema9 = rsiValues.length >= 9 ? calculateEMA(rsiValues, 9) : NaN;
-    return { rsi, wma: wma45, ema: ema9 };
+    return computeIndicators(feed.candleSticks, feed.price);
   } catch (error) {
     if (error instanceof Error) {
       console.error(`Error calculating indicators: ${error.message}`);
     } else {
       console.error(`Error calculating indicators: ${error}`);
     }
-    return { rsi: NaN, wma: NaN, ema: NaN };
+    return {};
   }
 }
 
+// Same as calculateIndicators, but over a given candle series instead of the
+// live buffer. Used to replay historical data offline.
+function calculateIndicatorsFromCandles(candles: any[], currentPrice: number) {
+  return computeIndicators(candles, currentPrice);
+}
+
 export {
-  initFirstCandleSticks,
-  initCandleStickWS,
-  initPriceWS,
-  calculateRSI,
-  calculateWMA,
-  calculateEMA,
+  CandleFeed,
+  getCandleFeed,
   calculateIndicators,
-  events, // Export events
-  priceStream,
+  calculateIndicatorsFromCandles,
+  candleStickFromAPIData,
+  intervalToMilliseconds,
+  MAX_CANDLE_STICKS_LENGTH,
 };
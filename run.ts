@@ -1,257 +1,585 @@
-import {
-  Connection,
-  Keypair,
-  PublicKey,
-  sendAndConfirmTransaction,
-  Transaction,
-} from "@solana/web3.js";
+import path from "path";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
 import base58 from "bs58";
 import {
   createPhoenixClient,
   getMarketState,
-  cancelAllOrders,
-  getCurrentOrders,
-  checkUserBalance,
-  wrapToken,
-  placeOrderWithSol,
-  placeOrderWithUSD,
   calculateMinimumOrderVolume,
 } from "./functions";
+import { Exchange, liveExchange } from "./exchange";
+import { loadMarketSnapshot, PaperExchange } from "./paper";
+import { createLogger, Logger } from "./logger";
+import { getWalletSettings } from "./wallets";
+import { OrderPlacement } from "./types";
+import { PriceSource } from "./priceSource";
+import { checkFeedStatus } from "./guard";
+import { TimeframeConfirmation } from "./confirmation";
+import { RegimeDetector } from "./regime";
 import { getPrivateKeysFromEnv } from "./env";
-import { Side, MarketState } from "@ellipsis-labs/phoenix-sdk";
-import {
-  calculateIndicators,
-  initCandleStickWS,
-  initFirstCandleSticks,
-  priceStream,
-  initPriceWS,
-} from "./rsi";
+import { Client, Side, MarketState, toNum } from "@ellipsis-labs/phoenix-sdk";
+import { calculateIndicators, CandleFeed, getCandleFeed } from "./rsi";
 import { config } from "./config";
+import { getStrategy, missingIndicators, Strategy } from "./strategy";
+import { formatIndicators } from "./indicators";
+import { calculateOffset } from "./offset";
+import { describeOrder, OrderManager, OrderTransition } from "./orders";
+import { describeTradeEvent, FillTracker, TradeEvent } from "./fills";
+import { describePosition, Ledger } from "./ledger";
+import { OrderRequest, RiskManager, startOfUtcDay } from "./risk";
+import { describeExit, ExitManager } from "./exits";
+import { describeLevel, GridManager } from "./grid";
+import { computeQuotes, describeQuotes, MarketMaker } from "./marketMaker";
+import { decodeTradeError, describeTradeError, TradeError } from "./errors";
 import { SendTransactionError } from "@solana/web3.js";
 
-async function trade(
+const WSOL_MINT = new PublicKey("So11111111111111111111111111111111111111112");
+
+// Everything shared by the wallets trading one market
+type MarketContext = {
+  name: string;
+  marketState: MarketState;
+  exchange: Exchange;
+  feed: CandleFeed;
+  priceSource: PriceSource;
+  confirmation: TimeframeConfirmation;
+  fills: FillTracker;
+  ledger: Ledger;
+};
+
+// State of one wallet on one market that outlives restarts of trade()
+type WalletContext = {
+  trader: Keypair;
+  logger: Logger;
+  risk: RiskManager;
+  orderManager: OrderManager;
+  exits: ExitManager;
+  grid: GridManager;
+  marketMaker: MarketMaker;
+};
+
+// Places a limit order of `size` base units at `price` through
+// placeOrderWithUSD, which spends base or quote already held and never wraps
+// SOL. Returns the order's client order id, or undefined when it failed. With
+// `restUntilCanceled` the order neither expires nor gets a cancel time.
+async function placeLimitOrder(
   connection: Connection,
-  marketState: MarketState,
-  trader: Keypair,
-  pair: string,
-  sideway: boolean,
-  volume: number,
-  percentage: number,
-  timeCancel: number
+  market: MarketContext,
+  wallet: WalletContext,
+  side: Side,
+  size: number,
+  price: number,
+  reason: string,
+  restUntilCanceled: boolean = false
+): Promise<number | undefined> {
+  const { marketState, exchange } = market;
+  const { trader, logger, orderManager } = wallet;
+  const priceInTicks = marketState.floatPriceToTicks(price);
+  const quoteAtoms =
+    parseFloat((size * price).toFixed(8)) *
+    10 ** marketState.data.header.quoteParams.decimals;
+  const clientOrderId = orderManager.nextClientOrderId();
+  try {
+    await exchange.placeOrderWithUSD(
+      connection,
+      marketState,
+      trader,
+      side,
+      marketState.quoteAtomsToQuoteLots(quoteAtoms),
+      priceInTicks,
+      price,
+      clientOrderId,
+      restUntilCanceled ? undefined : orderManager.validSeconds()
+    );
+  } catch (error) {
+    logger.error(
+      `Error placing ${Side[side]} order (${reason}): ${describeTradeError(
+        decodeTradeError(error)
+      )}`
+    );
+    return undefined;
+  }
+  orderManager.recordPlaced(
+    {
+      clientOrderId,
+      side,
+      priceInTicks,
+      price: marketState.ticksToFloatPrice(priceInTicks),
+      reason,
+    },
+    restUntilCanceled
+  );
+  return clientOrderId;
+}
+
+// Sends the take-profit and stop orders the exit manager asks for. Exits pass
+// the risk limits like any other order; a rejected one stays pending in its
+// plan and is tried again on the next cycle. Take-profits rest until they
+// fill or the stop cancels them, so the cancelTime sweep leaves them alone.
+async function manageExits(
+  connection: Connection,
+  market: MarketContext,
+  wallet: WalletContext,
+  currentPrice: number
 ) {
-  // Keep track of the number of orders from the previous cycle
-  let previousOrderCount = 0;
+  const { marketState, exchange } = market;
+  const { trader, logger, risk, orderManager, exits } = wallet;
+  const graceMs = config.fills.pollSeconds * 3 * 1000;
+  const actions = exits.update(currentPrice, (clientOrderId) =>
+    orderManager.mayStillFill(clientOrderId, graceMs)
+  );
+  let baseInventory: number | undefined;
 
-  while (true) {
+  for (const action of actions) {
+    const { plan } = action;
+    if (action.type === "cancel") {
+      const order = orderManager
+        .liveOrders()
+        .find((order) => order.clientOrderId === action.clientOrderId);
+      if (!order?.bookOrder) continue;
+      try {
+        await exchange.cancelOrders(connection, marketState, trader, [
+          order.bookOrder,
+        ]);
+        orderManager.markCancelling([order]);
+        logger.log(
+          `Stop triggered, canceled take profit: ${describeExit(plan)}`
+        );
+      } catch (error) {
+        logger.error("Error canceling take profit order:", error);
+      }
+      continue;
+    }
+
+    const orderVolume = action.size * action.price;
+    if (orderVolume < calculateMinimumOrderVolume(marketState, action.price)) {
+      exits.close(plan, "Remaining size is below the minimum order volume");
+      logger.log(
+        `Remaining size is below the minimum order volume, exit closed: ${describeExit(
+          plan
+        )}`
+      );
+      continue;
+    }
+    baseInventory =
+      baseInventory ??
+      (await exchange.checkUserBalance(connection, marketState, trader))
+        .totalBaseBalance / currentPrice;
+    const allowed = await checkRisk(
+      connection,
+      market,
+      wallet,
+      { side: action.side, price: action.price, size: action.size },
+      baseInventory
+    );
+    if (!allowed) continue;
+    const clientOrderId = await placeLimitOrder(
+      connection,
+      market,
+      wallet,
+      action.side,
+      action.size,
+      action.price,
+      `${action.kind} for entry ${plan.entryId}`,
+      action.kind === "takeProfit"
+    );
+    if (clientOrderId === undefined) continue;
+    risk.recordOrder();
+    exits.recordExitOrder(plan, action.kind, clientOrderId);
+    logger.log(
+      `Placed ${action.kind} ${Side[action.side]} ${action.size} @ ${
+        action.price
+      }: ${describeExit(plan)}`
+    );
+  }
+}
+
+function logTransitions(logger: Logger, transitions: OrderTransition[]) {
+  transitions.forEach(({ order, from, to }) =>
+    logger.log(`Order ${describeOrder(order)}: ${from} -> ${to}`)
+  );
+}
+
+// Updates the wallet's orders from the book and, unless the caller replaces
+// them itself, cancels the ones whose own cancel time has passed
+async function syncOrders(
+  connection: Connection,
+  market: MarketContext,
+  wallet: WalletContext,
+  cancelDue: boolean = true
+) {
+  const { marketState, exchange } = market;
+  const { trader, logger, orderManager } = wallet;
+  try {
+    logTransitions(
+      logger,
+      orderManager.sync(
+        await exchange.getCurrentOrders(marketState, trader.publicKey)
+      )
+    );
+    if (cancelDue) await cancelDueOrders(connection, market, wallet);
+  } catch (error: any) {
+    logger.error(`Error checking orders: ${error.message}`);
+  }
+}
+
+async function cancelDueOrders(
+  connection: Connection,
+  market: MarketContext,
+  wallet: WalletContext
+) {
+  const { marketState, exchange } = market;
+  const { trader, logger, orderManager } = wallet;
+  try {
+    // Only cancel the orders whose own cancel time has passed
+    const dueOrders = orderManager.dueForCancel();
+    if (dueOrders.length > 0) {
+      logger.log(
+        `Canceling ${
+          dueOrders.length
+        } orders past their cancel time: ${dueOrders
+          .map(describeOrder)
+          .join(", ")}`
+      );
+      try {
+        await exchange.cancelOrders(
+          connection,
+          marketState,
+          trader,
+          dueOrders.map((order) => order.bookOrder!)
+        );
+        orderManager.markCancelling(dueOrders);
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+        await exchange.reloadMarket(connection, marketState);
+
+        logTransitions(
+          logger,
+          orderManager.sync(
+            await exchange.getCurrentOrders(marketState, trader.publicKey)
+          )
+        );
+        logger.log(
+          `Orders after cancellation: ${orderManager.liveOrders().length}`
+        );
+      } catch (error) {
+        if (error instanceof SendTransactionError) {
+          logger.error("SendTransactionError:", error.message);
+          logger.error("Transaction logs:", await error.getLogs(connection));
+        } else {
+          logger.error("Error canceling orders:", error);
+        }
+      }
+    } else if (orderManager.liveOrders().length > 0) {
+      logger.log(
+        `No orders due for cancellation (${
+          orderManager.liveOrders().length
+        } open)`
+      );
+    } else {
+      logger.log("No orders to cancel.");
+    }
+  } catch (error: any) {
+    logger.error(`Error checking orders: ${error.message}`);
+  }
+}
+
+// Runs an order past the wallet's risk limits, logging a rejection and
+// canceling the resting orders when a breach halts the wallet
+async function checkRisk(
+  connection: Connection,
+  market: MarketContext,
+  wallet: WalletContext,
+  order: OrderRequest,
+  baseInventory: number
+): Promise<boolean> {
+  const { marketState, exchange, ledger } = market;
+  const { trader, logger, risk, orderManager } = wallet;
+  const today = ledger.report({
+    wallet: trader.publicKey.toString(),
+    market: market.name,
+    from: startOfUtcDay(),
+  })[0];
+  const riskCheck = risk.check(order, {
+    baseInventory,
+    openOrders: orderManager.restingOrders().map((order) => ({
+      side: order.side,
+      price: marketState.ticksToFloatPrice(order.priceInTicks),
+      size: order.bookOrder
+        ? marketState.baseLotsToRawBaseUnits(
+            toNum(order.bookOrder.sizeInBaseLots)
+          )
+        : 0,
+    })),
+    dailyPnl: today ? today.realizedPnl - today.fees : 0,
+  });
+  if (riskCheck.ok) return true;
+
+  logger.warn(
+    `Order rejected by ${riskCheck.limit}: ${riskCheck.reason}. No order placed.`
+  );
+  // Only the orders on the sides the halt stops, so sells keep working
+  // through an inventory halt
+  const restingOrders = orderManager
+    .restingOrders()
+    .filter((order) => order.bookOrder && risk.haltedFor(order.side));
+  if (riskCheck.breach && risk.cancelOnBreach && restingOrders.length > 0) {
+    logger.warn(`Canceling ${restingOrders.length} resting orders.`);
     try {
-      const currentOrders = await getCurrentOrders(
+      await exchange.cancelOrders(
+        connection,
         marketState,
-        trader.publicKey
+        trader,
+        restingOrders.map((order) => order.bookOrder!)
       );
-      const currentOrderCount = currentOrders.length;
+      orderManager.markCancelling(restingOrders);
+    } catch (error) {
+      logger.error("Error canceling orders:", error);
+    }
+  }
+  return false;
+}
 
-      // Only cancel orders if the count has changed
-      if (currentOrderCount > 0 && currentOrderCount !== previousOrderCount) {
-        console.log(
-          `Canceling orders... (${currentOrderCount} orders found, previous: ${previousOrderCount})`
+// Does what can be done about a failed order and returns whether the wallet
+// should back off before trying again
+async function handleTradeError(
+  connection: Connection,
+  market: MarketContext,
+  wallet: WalletContext,
+  error: TradeError,
+  order: OrderRequest,
+  isSolBase: boolean
+): Promise<boolean> {
+  const { marketState, exchange } = market;
+  const { trader, logger } = wallet;
+  switch (error.kind) {
+    case "insufficientFunds": {
+      // Only SOL can be wrapped to make up for missing base
+      if (order.side !== Side.Ask || !isSolBase) {
+        logger.log("Skipping the order until the balance allows it.");
+        return false;
+      }
+      const { solBalance, baseWalletBalance } = await exchange.checkUserBalance(
+        connection,
+        marketState,
+        trader
+      );
+      const amountToWrap = order.size - baseWalletBalance;
+      if (amountToWrap <= 0) return false;
+      if (solBalance < amountToWrap) {
+        logger.error(
+          `Insufficient SOL to wrap ${amountToWrap} into wSOL, balance ${solBalance}`
         );
-        try {
-          const cancelAllOrdersTx = await cancelAllOrders(
-            marketState,
-            trader.publicKey
-          );
+        return true;
+      }
+      logger.log(`Wrapping ${amountToWrap} SOL into wSOL...`);
+      await exchange.wrapToken(
+        connection,
+        trader,
+        amountToWrap,
+        WSOL_MINT,
+        "wSOL"
+      );
+      return false;
+    }
+    case "missingSeat":
+      logger.log("Requesting a seat on the market...");
+      try {
+        await exchange.onboardTrader(connection, marketState, trader);
+        return false;
+      } catch (seatError) {
+        logger.error(
+          `Could not get a seat: ${describeTradeError(
+            decodeTradeError(seatError)
+          )}`
+        );
+        return true;
+      }
+    case "missingTokenAccount":
+      // Creates the trader's missing token accounts
+      await exchange.checkUserBalance(connection, marketState, trader);
+      return false;
+    case "insufficientSol":
+      logger.error("Top up the wallet's SOL to keep trading.");
+      return true;
+    case "expiredBlockhash":
+      return true;
+    default:
+      // Expired, self-trading and unknown orders are retried next cycle
+      return false;
+  }
+}
 
-          const {
-            blockhash: cancelBlockhash,
-            lastValidBlockHeight: cancelLastValidBlockHeight,
-          } = await connection.getLatestBlockhash();
-          const cancelTransaction = new Transaction({
-            blockhash: cancelBlockhash,
-            lastValidBlockHeight: cancelLastValidBlockHeight,
-            feePayer: trader.publicKey,
-          }).add(cancelAllOrdersTx);
-
-          const cancelAllOrdersTxId = await sendAndConfirmTransaction(
-            connection,
-            cancelTransaction,
-            [trader],
-            {
-              commitment: "confirmed",
-              preflightCommitment: "confirmed",
-            }
-          );
-          await new Promise((resolve) => setTimeout(resolve, 5000));
-          await marketState.reloadFromNetwork(connection);
+async function trade(
+  connection: Connection,
+  market: MarketContext,
+  wallet: WalletContext,
+  strategy: Strategy,
+  volume: number,
+  percentage: number,
+  timeCancel: number
+) {
+  const { marketState, exchange, feed, priceSource, confirmation, ledger } =
+    market;
+  const { trader, logger, risk, orderManager } = wallet;
+  const pair = feed.symbol;
+  const isSolBase =
+    marketState.data.header.baseParams.mintKey.equals(WSOL_MINT);
+  let paused = false;
+  let backOffs = 0; // Consecutive failures that paused the wallet
+  const regimeDetector = new RegimeDetector();
+  while (true) {
+    // Orders past their cancel time are replaced in the same transaction as
+    // this cycle's order. A cycle that places nothing cancels them before it
+    // waits.
+    await syncOrders(connection, market, wallet, false);
+    let dueHandled = false;
+    const cancelDue = async () => {
+      if (dueHandled) return;
+      dueHandled = true;
+      await cancelDueOrders(connection, market, wallet);
+    };
+    const wait = async (ms: number) => {
+      await cancelDue();
+      await new Promise((resolve) => setTimeout(resolve, ms));
+    };
 
-          // Verify that all orders are canceled
-          const updatedOrders = await getCurrentOrders(
-            marketState,
-            trader.publicKey
-          );
-          console.log(`Orders after cancellation: ${updatedOrders.length}`);
-        } catch (error) {
-          if (error instanceof SendTransactionError) {
-            console.error("SendTransactionError:", error.message);
-            console.error("Transaction logs:", await error.getLogs(connection));
-          } else {
-            console.error("Error canceling orders:", error);
-          }
-        }
-      } else if (currentOrderCount > 0) {
-        console.log(
-          `Skipping order cancellation - order count unchanged (${currentOrderCount})`
-        );
-      } else {
-        console.log("No orders to cancel.");
+    // A halt on a bid limit still lets the wallet sell
+    const halt = risk.haltedFor(Side.Ask);
+    if (halt) {
+      logger.warn(
+        `Trading halted by ${halt.limit}: ${halt.reason}. Run "npm run risk -- reset" to resume.`
+      );
+      await wait(timeCancel * 1000);
+      continue;
+    }
+
+    // Pause while the feed is stale or implausible, resume once it recovers
+    const feedStatus = checkFeedStatus(feed);
+    if (!feedStatus.ok) {
+      if (!paused) {
+        logger.warn(`Trading paused: ${feedStatus.reason}`);
+        paused = true;
       }
+      await wait(10 * 1000);
+      continue;
+    }
+    if (paused) {
+      logger.log("Feed data is fresh again. Resuming trading.");
+      paused = false;
+    }
 
-      // Update the previous order count for the next iteration
-      previousOrderCount = currentOrderCount;
-    } catch (error: any) {
-      console.error(`Error checking orders: ${error.message}`);
+    const indicators = await calculateIndicators(feed);
+    const { rsi, wma: wma45, ema: ema9 } = indicators;
+    const previousRegime = regimeDetector.regime;
+    const regime = regimeDetector.update(feed.candleSticks, indicators);
+    if (regime !== previousRegime) {
+      logger.log(`Regime changed from ${previousRegime} to ${regime}.`);
     }
-    const {
-      rsi,
-      wma: wma45,
-      ema: ema9,
-    } = await calculateIndicators(marketState);
-    console.log(
-      `\nRSI: ${rsi}, WMA45: ${wma45}, EMA9: ${ema9}, Time: ${new Date().toLocaleString()}, Pair: ${pair}`
+    logger.log(
+      `\nRSI: ${rsi}, WMA45: ${wma45}, EMA9: ${ema9}, Regime: ${regime} (${regimeDetector.describe()}), Time: ${new Date().toLocaleString()}, Pair: ${pair}`
     );
-    console.log(
+    logger.log(`Indicators: ${formatIndicators(indicators)}`);
+    logger.log(
       `WMAlimitSell: ${config.WMAlimitSell}, WMAlimitBuy: ${config.WMAlimitBuy}`
     );
 
-    // Check if indicators are valid
-    if (isNaN(rsi) || isNaN(wma45) || isNaN(ema9)) {
-      console.log(
-        "Not enough data to calculate indicators. Skipping this iteration."
+    // Check if the indicators the strategy needs are valid
+    const missing = missingIndicators(strategy, indicators);
+    if (missing.length > 0) {
+      logger.log(
+        `Not enough data to calculate indicators (${missing.join(
+          ", "
+        )}). Skipping this iteration.`
       );
-      await new Promise((resolve) => setTimeout(resolve, 30 * 1000));
+      await wait(30 * 1000);
       continue;
     }
 
-    let side: Side;
-    let priceInTicks: number;
-    const currentPrice = priceStream;
-
-    // Always place limit orders based on the current price and percentage
+    const quote = await priceSource.getQuote();
+    if (!quote.ok) {
+      logger.log(`Not quoting: ${quote.reason}`);
+      await wait(timeCancel * 1000);
+      continue;
+    }
+    const currentPrice = quote.price;
+    logger.log(
+      `Price: ${currentPrice} from ${quote.source} (Binance: ${quote.binancePrice}, Phoenix: ${quote.phoenixPrice})`
+    );
+    logger.log(
+      `Position: ${describePosition(
+        ledger.position(trader.publicKey.toString(), market.name),
+        currentPrice
+      )}`
+    );
+    await manageExits(connection, market, wallet, currentPrice);
+    const offset = calculateOffset(feed.candleSticks, currentPrice, percentage);
+    const decision = strategy.decide({
+      indicators,
+      currentPrice,
+      marketState,
+      volume,
+      percentage: offset.percentage,
+      regime,
+    });
+    logger.log(`[${strategy.name}] ${decision.reason} Pair: ${pair}\n`);
+    if (decision.action === "hold") {
+      await wait(timeCancel * 1000);
+      continue;
+    }
 
-    if (rsi > 75) {
-      console.log(`RSI is above 75. Placing SELL limit order for ${pair}.`);
-      side = Side.Ask;
-      priceInTicks = marketState.floatPriceToTicks(
-        currentPrice * (1 + percentage / 100)
-      );
-    } else if (rsi < 25) {
-      console.log(`RSI is below 25. Placing BUY limit order for ${pair}.`);
-      side = Side.Bid;
-      priceInTicks = marketState.floatPriceToTicks(
-        currentPrice * (1 - percentage / 100)
+    const confirmationStatus = confirmation.check(decision.side);
+    if (!confirmationStatus.ok) {
+      logger.log(
+        `Higher timeframes disagree: ${confirmationStatus.reason}. No order placed.\n`
       );
-    } else {
-      if (sideway) {
-        if (rsi >= Math.min(wma45, ema9) && rsi <= Math.max(wma45, ema9)) {
-          console.log(`RSI is within the sideway range, ${pair}.`);
-          if (wma45 < config.WMAlimitBuy) {
-            console.log(
-              `WMA45 is below the buy limit. Placing BUY limit order for ${pair}.\n`
-            );
-            side = Side.Bid;
-            priceInTicks = marketState.floatPriceToTicks(
-              currentPrice * (1 - percentage / 100)
-            );
-          } else {
-            console.log(
-              `WMA45 is not below the buy limit. No BUY limit order placed for ${pair}.\n`
-            );
-            await new Promise((resolve) =>
-              setTimeout(resolve, timeCancel * 1000)
-            );
-            continue;
-          }
-        } else if (rsi > Math.max(wma45, ema9) && wma45 > config.WMAlimitSell) {
-          console.log(
-            `RSI is above the sideway range and WMA45 is above the sell limit. Placing SELL limit order for ${pair}.\n`
-          );
-          side = Side.Ask;
-          priceInTicks = marketState.floatPriceToTicks(
-            currentPrice * (1 + percentage / 100)
-          );
-        } else {
-          console.log(
-            `RSI is not within the sideway range and no conditions met for placing orders for ${pair}.\n`
-          );
-          await new Promise((resolve) =>
-            setTimeout(resolve, timeCancel * 1000)
-          );
-          continue;
-        }
-      } else {
-        if (wma45 < config.WMAlimitBuy && rsi < wma45) {
-          console.log(
-            `WMA45 is below the buy limit and RSI is below WMA45. Placing BUY limit order for ${pair}.\n`
-          );
-          side = Side.Bid;
-          priceInTicks = marketState.floatPriceToTicks(
-            currentPrice * (1 - percentage / 100)
-          );
-        } else if (wma45 > config.WMAlimitSell && rsi > wma45) {
-          console.log(
-            `WMA45 is above the sell limit and RSI is above WMA45. Placing SELL limit order for ${pair}.\n`
-          );
-          side = Side.Ask;
-          priceInTicks = marketState.floatPriceToTicks(
-            currentPrice * (1 + percentage / 100)
-          );
-        } else {
-          console.log(`No conditions met for placing orders, ${pair}.\n`);
-          await new Promise((resolve) =>
-            setTimeout(resolve, timeCancel * 1000)
-          );
-          continue;
-        }
-      }
+      await wait(timeCancel * 1000);
+      continue;
     }
 
-    // side = Side.Bid;
-    // priceInTicks = marketState.floatPriceToTicks(
-    //   currentPrice * (1 - percentage / 100)
-    // );
-    console.log(`currentPrice: ${currentPrice}`);
+    const side: Side = decision.side;
+    const orderVolume = decision.size;
+    const priceInTicks = marketState.floatPriceToTicks(
+      currentPrice * (1 + decision.priceOffset)
+    );
+
+    logger.log(`currentPrice: ${currentPrice}`);
+    logger.log(
+      `Offset: ${(decision.priceOffset * 100).toFixed(4)}% (${
+        offset.description
+      })`
+    );
     const baseAtoms =
-      parseFloat((volume / currentPrice).toFixed(8)) *
+      parseFloat((orderVolume / currentPrice).toFixed(8)) *
       10 ** marketState.data.header.baseParams.decimals;
-    // console.log(`baseAtoms: ${baseAtoms}`);
+    // logger.log(`baseAtoms: ${baseAtoms}`);
     const quoteAtoms =
-      parseFloat(volume.toFixed(8)) *
+      parseFloat(orderVolume.toFixed(8)) *
       10 ** marketState.data.header.quoteParams.decimals;
     const numBaseLots = marketState.baseAtomsToBaseLots(baseAtoms);
     const numQuoteLots = marketState.quoteAtomsToQuoteLots(quoteAtoms);
-    // console.log(
+    // logger.log(
     //   `numBaseLots: ${numBaseLots} (for ask/sell orders), numQuoteLots: ${numQuoteLots} (for bid/buy orders)`
     // );
-    // console.log(`Converted from volume: ${volume}`);
+    // logger.log(`Converted from volume: ${volume}`);
     const minimumOrderVolume = calculateMinimumOrderVolume(
       marketState,
       currentPrice
     );
-    // console.log(`Minimum order volume: ${minimumOrderVolume.toFixed(6)} USDC`);
-    if (volume < minimumOrderVolume) {
-      console.log(
+    // logger.log(`Minimum order volume: ${minimumOrderVolume.toFixed(6)} USDC`);
+    if (orderVolume < minimumOrderVolume) {
+      logger.log(
         `Error: Volume is less than the minimum order volume of ${minimumOrderVolume.toFixed(
           6
         )} USDC`
       );
-      await new Promise((resolve) => setTimeout(resolve, timeCancel * 1000));
-      console.log("Ending process due to insufficient volume.");
-      process.exit(0);
+      logger.log("Stopping this wallet due to insufficient volume.");
+      await cancelDue();
+      return;
     }
 
     // Ensure either numBaseLots or numQuoteLots is nonzero
     if (numBaseLots == 0 || numQuoteLots == 0) {
-      console.error("Either numBaseLots or numQuoteLots must be nonzero.");
-      await new Promise((resolve) => setTimeout(resolve, timeCancel * 1000));
+      logger.error("Either numBaseLots or numQuoteLots must be nonzero.");
+      await wait(timeCancel * 1000);
       continue;
     }
 
@@ -264,35 +592,53 @@ async function trade(
       quoteOpenOrdersBalance,
       totalBaseBalance,
       totalQuoteBalance,
-    } = await checkUserBalance(connection, marketState, trader);
-    // console.log(
+    } = await exchange.checkUserBalance(connection, marketState, trader);
+    // logger.log(
     //   `solBalance: ${solBalance}, baseWalletBalance: ${baseWalletBalance}, quoteWalletBalance: ${quoteWalletBalance}`
     // );
-    console.log(
-      `Placing order with side: ${Side[side]}, volume: ${volume} USD, priceInTicks: ${priceInTicks}`
+
+    // Every order has to pass the risk limits
+    const allowed = await checkRisk(
+      connection,
+      market,
+      wallet,
+      {
+        side,
+        price: marketState.ticksToFloatPrice(priceInTicks),
+        size: orderVolume / currentPrice,
+      },
+      totalBaseBalance / currentPrice
+    );
+    if (!allowed) {
+      await wait(timeCancel * 1000);
+      continue;
+    }
+
+    logger.log(
+      `Placing order with side: ${Side[side]}, volume: ${orderVolume} USD, priceInTicks: ${priceInTicks}`
     );
 
     // Check if the balance is sufficient
     if (side === Side.Bid) {
       const requiredQuoteUnits =
         numQuoteLots * Number(marketState.data.header.quoteLotSize);
-      // console.log(
+      // logger.log(
       //   `requiredQuoteUnits: ${requiredQuoteUnits}, ${Number(
       //     marketState.data.header.quoteLotSize
       //   )}`
       // );
       const requiredQuoteBalance =
         requiredQuoteUnits / 10 ** marketState.data.header.quoteParams.decimals;
-      // console.log(`requiredQuoteBalance: ${requiredQuoteBalance}`);
-      // console.log(`quoteWalletBalance: ${quoteWalletBalance}`);
+      // logger.log(`requiredQuoteBalance: ${requiredQuoteBalance}`);
+      // logger.log(`quoteWalletBalance: ${quoteWalletBalance}`);
 
       if (quoteWalletBalance < requiredQuoteBalance) {
-        console.error("Error: Insufficient quote balance to place the order");
-        console.log(
+        logger.error("Error: Insufficient quote balance to place the order");
+        logger.log(
           `Wallet quote balance: ${quoteWalletBalance}, required: ${requiredQuoteBalance}`
         );
         // Skip placing the order if funds are insufficient.
-        await new Promise((resolve) => setTimeout(resolve, timeCancel * 1000));
+        await wait(timeCancel * 1000);
         continue;
       }
     }
@@ -304,144 +650,651 @@ async function trade(
         requiredBaseUnits / 10 ** marketState.data.header.baseParams.decimals;
 
       if (baseWalletBalance < requiredBaseBalance) {
-        console.error("Error: Insufficient base balance to place the order");
-        console.log(
+        logger.error("Error: Insufficient base balance to place the order");
+        logger.log(
           `Wallet base balance: ${baseWalletBalance}, required: ${requiredBaseBalance}`
         );
+        // Only SOL can be wrapped to make up the difference
+        if (!isSolBase) {
+          await wait(timeCancel * 1000);
+          continue;
+        }
         // Only wrap the missing SOL required for the order
         const amountToWrap = requiredBaseBalance - baseWalletBalance;
-        console.log(`Wrapping ${amountToWrap} SOL into wSOL...`);
+        logger.log(`Wrapping ${amountToWrap} SOL into wSOL...`);
 
         if (solBalance >= amountToWrap) {
           try {
             // Wrap only the missing SOL
-            await wrapToken(
+            await exchange.wrapToken(
               connection,
               trader,
               amountToWrap,
-              new PublicKey("So11111111111111111111111111111111111111112"),
+              WSOL_MINT,
               "wSOL"
             );
             // Optionally wait a bit for the new balance to reflect on-chain
             await new Promise((resolve) => setTimeout(resolve, 2000));
           } catch (error) {
-            console.error("Error wrapping SOL into wSOL:", error);
-            await new Promise((resolve) =>
-              setTimeout(resolve, timeCancel * 1000)
-            );
+            logger.error("Error wrapping SOL into wSOL:", error);
+            await wait(timeCancel * 1000);
             continue;
           }
         } else {
-          console.error("Error: Insufficient SOL to wrap into wSOL");
-          console.log(`SOL balance: ${solBalance}, required: ${amountToWrap}`);
-          await new Promise((resolve) =>
-            setTimeout(resolve, timeCancel * 1000)
-          );
+          logger.error("Error: Insufficient SOL to wrap into wSOL");
+          logger.log(`SOL balance: ${solBalance}, required: ${amountToWrap}`);
+          await wait(timeCancel * 1000);
           continue;
         }
       }
     }
 
+    const clientOrderId = orderManager.nextClientOrderId();
+    const dueOrders = orderManager.dueForCancel();
     try {
-      const lots = side === Side.Ask ? numBaseLots : numQuoteLots;
-      // const lots = numQuoteLots;
-      if (side === Side.Ask) {
-        await placeOrderWithSol(
-          connection,
-          marketState,
-          trader,
-          side,
-          lots,
-          priceInTicks
-        );
-      } else {
-        await placeOrderWithUSD(
-          connection,
-          marketState,
-          trader,
-          side,
-          lots,
-          priceInTicks,
-          currentPrice
+      const placement: OrderPlacement =
+        side === Side.Ask && isSolBase
+          ? {
+              kind: "sol",
+              side,
+              volume: numBaseLots,
+              priceInTicks,
+              clientOrderId,
+              validSeconds: orderManager.validSeconds(),
+            }
+          : {
+              kind: "usd",
+              side,
+              quoteLots: numQuoteLots,
+              priceInTicks,
+              currentPrice,
+              clientOrderId,
+              validSeconds: orderManager.validSeconds(),
+            };
+      if (dueOrders.length > 0) {
+        logger.log(
+          `Replacing ${
+            dueOrders.length
+          } orders past their cancel time: ${dueOrders
+            .map(describeOrder)
+            .join(", ")}`
         );
       }
+      await exchange.cancelAndPlace(
+        connection,
+        marketState,
+        trader,
+        dueOrders.map((order) => order.bookOrder!),
+        placement
+      );
+      dueHandled = true;
+      orderManager.markCancelling(dueOrders);
+      risk.recordOrder();
+      orderManager.recordPlaced({
+        clientOrderId,
+        side,
+        priceInTicks,
+        price: marketState.ticksToFloatPrice(priceInTicks),
+        reason: decision.reason,
+      });
+      backOffs = 0;
     } catch (error) {
-      if (error instanceof SendTransactionError) {
-        const logs = await error.getLogs(connection);
-        console.error(
+      const tradeError = decodeTradeError(error);
+      logger.error(`Error placing order: ${describeTradeError(tradeError)}`);
+      if (tradeError.logs.length > 0) {
+        logger.error(
           "Detailed Transaction logs:",
-          JSON.stringify(logs, null, 2)
+          JSON.stringify(tradeError.logs, null, 2)
         );
-      } else {
-        console.error("Error placing order:", error);
+      }
+      try {
+        const backOff = await handleTradeError(
+          connection,
+          market,
+          wallet,
+          tradeError,
+          {
+            side,
+            price: marketState.ticksToFloatPrice(priceInTicks),
+            size: orderVolume / currentPrice,
+          },
+          isSolBase
+        );
+        if (backOff) {
+          const seconds = Math.min(
+            config.errors.maxBackOffSeconds,
+            config.errors.backOffSeconds * 2 ** backOffs++
+          );
+          logger.warn(`Backing off for ${seconds}s.`);
+          await wait(seconds * 1000);
+          continue;
+        }
+      } catch (handlingError) {
+        logger.error("Error handling the failed order:", handlingError);
       }
     }
-    await new Promise((resolve) => setTimeout(resolve, 5000));
-    await marketState.reloadFromNetwork(connection);
+    await wait(5000);
+    await exchange.reloadMarket(connection, marketState);
 
-    const currentOrders = await getCurrentOrders(marketState, trader.publicKey);
-    console.log("Current orders:", currentOrders.length);
+    logTransitions(
+      logger,
+      orderManager.sync(
+        await exchange.getCurrentOrders(marketState, trader.publicKey)
+      )
+    );
+    logger.log("Current orders:", orderManager.liveOrders().length);
 
     // Wait for the specified time
-    await new Promise((resolve) => setTimeout(resolve, timeCancel * 1000));
-    await marketState.reloadFromNetwork(connection);
+    await wait(timeCancel * 1000);
+    await exchange.reloadMarket(connection, marketState);
   }
 }
 
-async function main() {
-  const privateKeys = getPrivateKeysFromEnv();
-  for (const privateKey of privateKeys) {
-    const trader = Keypair.fromSecretKey(base58.decode(privateKey));
-    // console.log("Trader public key:", trader.publicKey.toString());
-
-    const connection = new Connection("https://api.mainnet-beta.solana.com");
-    // console.log("Creating Phoenix client...");
-    const phoenix = await createPhoenixClient(connection);
-    // console.log("Creating Phoenix client... Done");
-    // console.log("Getting market state...");
-    const marketState = await getMarketState(phoenix, "SOL/USDC");
-    // console.log("Getting market state... Done");
-    // console.log("Getting user balance...");
-    // Check user balance
-    const {
-      solBalance,
-      baseWalletBalance,
-      quoteWalletBalance,
-      baseOpenOrdersBalance,
-      quoteOpenOrdersBalance,
-      totalBaseBalance,
-      totalQuoteBalance,
-    } = await checkUserBalance(connection, marketState, trader);
+// Keeps the wallet's grid on the book: places every level that has no
+// working order and rebuilds the ladder once the price leaves it. Levels rest
+// until they fill or the ladder is rebuilt, whatever their cancel time.
+async function grid(
+  connection: Connection,
+  market: MarketContext,
+  wallet: WalletContext,
+  volume: number,
+  timeCancel: number
+) {
+  const { marketState, exchange, feed, priceSource } = market;
+  const { trader, logger, risk, orderManager, grid: gridManager } = wallet;
+  const graceMs = config.fills.pollSeconds * 3 * 1000;
+  let paused = false;
+
+  while (true) {
+    await syncOrders(connection, market, wallet, false);
+
+    // A halt on a bid limit still lets the wallet sell
+    const halt = risk.haltedFor(Side.Ask);
+    if (halt) {
+      logger.warn(
+        `Trading halted by ${halt.limit}: ${halt.reason}. Run "npm run risk -- reset" to resume.`
+      );
+      await new Promise((resolve) => setTimeout(resolve, timeCancel * 1000));
+      continue;
+    }
+    const feedStatus = checkFeedStatus(feed);
+    if (!feedStatus.ok) {
+      if (!paused) {
+        logger.warn(`Trading paused: ${feedStatus.reason}`);
+        paused = true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10 * 1000));
+      continue;
+    }
+    if (paused) {
+      logger.log("Feed data is fresh again. Resuming trading.");
+      paused = false;
+    }
+
+    const quote = await priceSource.getQuote();
+    if (!quote.ok) {
+      logger.log(`Not quoting: ${quote.reason}`);
+      await new Promise((resolve) => setTimeout(resolve, timeCancel * 1000));
+      continue;
+    }
+    const currentPrice = quote.price;
 
-    console.log("SOL balance: ", solBalance);
-    console.log("Base wallet balance: ", baseWalletBalance);
-    console.log("Quote wallet balance: ", quoteWalletBalance);
-    console.log("Base open orders balance: ", baseOpenOrdersBalance);
-    console.log("Quote open orders balance: ", quoteOpenOrdersBalance);
-    console.log("Total base balance: ", totalBaseBalance);
-    console.log("Total quote balance: ", totalQuoteBalance);
+    if (gridManager.needsRebuild(currentPrice)) {
+      const gridOrders = orderManager
+        .liveOrders()
+        .filter(
+          (order) =>
+            order.bookOrder &&
+            gridManager.workingClientOrderIds().includes(order.clientOrderId)
+        );
+      if (gridOrders.length > 0) {
+        logger.log(
+          `Price ${currentPrice} left the grid, canceling ${gridOrders.length} orders.`
+        );
+        try {
+          await exchange.cancelOrders(
+            connection,
+            marketState,
+            trader,
+            gridOrders.map((order) => order.bookOrder!)
+          );
+          orderManager.markCancelling(gridOrders);
+        } catch (error) {
+          logger.error("Error canceling grid orders:", error);
+          await new Promise((resolve) =>
+            setTimeout(resolve, timeCancel * 1000)
+          );
+          continue;
+        }
+      }
+
+      const levels = gridManager.build(currentPrice, volume);
+      const tooSmall = levels.filter(
+        (level) =>
+          level.side !== undefined &&
+          level.size * level.price <
+            calculateMinimumOrderVolume(marketState, level.price)
+      );
+      if (tooSmall.length > 0) {
+        logger.log(
+          `Error: Grid levels below the minimum order volume of ${calculateMinimumOrderVolume(
+            marketState,
+            currentPrice
+          ).toFixed(6)} USDC: ${tooSmall.map(describeLevel).join(", ")}`
+        );
+        logger.log("Stopping this wallet due to insufficient volume.");
+        return;
+      }
+      logger.log(
+        `Grid built around ${currentPrice}: ${levels
+          .map(describeLevel)
+          .join(", ")}`
+      );
+    }
 
-    const symbol = "SOLUSDC";
-    const interval = "5m";
+    const { totalBaseBalance } = await exchange.checkUserBalance(
+      connection,
+      marketState,
+      trader
+    );
+    const pendingLevels = gridManager.pendingLevels((clientOrderId) =>
+      orderManager.mayStillFill(clientOrderId, graceMs)
+    );
+    for (const level of pendingLevels) {
+      const side = level.side!;
+      const size = gridManager.remaining(level);
+      // A partly filled level may be left with less than an order's minimum
+      if (
+        size * level.price <
+        calculateMinimumOrderVolume(marketState, level.price)
+      ) {
+        continue;
+      }
+      const allowed = await checkRisk(
+        connection,
+        market,
+        wallet,
+        { side, price: level.price, size },
+        totalBaseBalance / currentPrice
+      );
+      // A rejected bid must not keep the sell levels off the book
+      if (!allowed) continue;
 
-    // Initialize the WebSocket connection to fetch candlestick data
-    initFirstCandleSticks(symbol, interval);
-    initCandleStickWS(symbol, interval);
-    initPriceWS(symbol);
+      const clientOrderId = await placeLimitOrder(
+        connection,
+        market,
+        wallet,
+        side,
+        size,
+        level.price,
+        `Grid ${describeLevel(level)}`,
+        true
+      );
+      if (clientOrderId === undefined) continue;
+      risk.recordOrder();
+      gridManager.recordOrder(level, clientOrderId);
+      logger.log(`Placed grid order: ${describeLevel(level)}`);
+    }
 
     await new Promise((resolve) => setTimeout(resolve, 5000));
-    // Trade
-    await trade(
+    await exchange.reloadMarket(connection, marketState);
+    logTransitions(
+      logger,
+      orderManager.sync(
+        await exchange.getCurrentOrders(marketState, trader.publicKey)
+      )
+    );
+    logger.log("Current orders:", orderManager.liveOrders().length);
+
+    await new Promise((resolve) => setTimeout(resolve, timeCancel * 1000));
+    await exchange.reloadMarket(connection, marketState);
+  }
+}
+
+// Quotes a bid and an ask around the Phoenix book mid, skewed by the
+// wallet's inventory, and replaces them once the mid moves too far. Quotes
+// rest until then: the market maker, not their cancel time, decides when
+// they go.
+async function makeMarket(
+  connection: Connection,
+  market: MarketContext,
+  wallet: WalletContext,
+  volume: number
+) {
+  const { marketState, exchange } = market;
+  const { trader, logger, risk, orderManager, marketMaker } = wallet;
+  const graceMs = config.fills.pollSeconds * 3 * 1000;
+  const refreshMs = config.marketMaking.refreshSeconds * 1000;
+
+  while (true) {
+    await syncOrders(connection, market, wallet, false);
+
+    // A halt on a bid limit still lets the wallet sell
+    const halt = risk.haltedFor(Side.Ask);
+    if (halt) {
+      logger.warn(
+        `Trading halted by ${halt.limit}: ${halt.reason}. Run "npm run risk -- reset" to resume.`
+      );
+      await new Promise((resolve) => setTimeout(resolve, refreshMs));
+      continue;
+    }
+
+    const mid = await exchange.getMidPrice(marketState, trader.publicKey);
+    if (mid === undefined) {
+      logger.log(
+        "Not quoting: no mid price, a side of the book has no orders but the wallet's own."
+      );
+      await new Promise((resolve) => setTimeout(resolve, refreshMs));
+      await exchange.reloadMarket(connection, marketState);
+      continue;
+    }
+
+    const minimumVolume = calculateMinimumOrderVolume(marketState, mid);
+    if (volume < minimumVolume) {
+      logger.log(
+        `Error: Volume ${volume} USDC is below the minimum order volume of ${minimumVolume.toFixed(
+          6
+        )} USDC.`
+      );
+      logger.log("Stopping this wallet due to insufficient volume.");
+      return;
+    }
+
+    const inventory = await exchange.checkUserBalance(
       connection,
       marketState,
-      trader,
-      symbol,
-      config.sideway,
-      config.volume,
-      config.percentage,
-      config.cancelTime
+      trader
     );
+    const quoteSet = computeQuotes(mid, volume, inventory);
+    logger.log(`Quotes: ${describeQuotes(quoteSet)}`);
+
+    const actions = marketMaker.update(quoteSet, (clientOrderId) =>
+      orderManager.mayStillFill(clientOrderId, graceMs)
+    );
+    for (const action of actions) {
+      if (action.type === "cancel") {
+        const orders = orderManager
+          .liveOrders()
+          .filter(
+            (order) =>
+              order.bookOrder &&
+              action.clientOrderIds.includes(order.clientOrderId)
+          );
+        if (orders.length === 0) continue;
+        try {
+          await exchange.cancelOrders(
+            connection,
+            marketState,
+            trader,
+            orders.map((order) => order.bookOrder!)
+          );
+          orderManager.markCancelling(orders);
+          logger.log(
+            `Canceled ${Side[action.side]} quote: ${orders
+              .map(describeOrder)
+              .join(", ")}`
+          );
+        } catch (error) {
+          logger.error(`Error canceling ${Side[action.side]} quote:`, error);
+        }
+        continue;
+      }
+
+      const allowed = await checkRisk(
+        connection,
+        market,
+        wallet,
+        { side: action.side, price: action.price, size: action.size },
+        inventory.totalBaseBalance / mid
+      );
+      // A rejected bid must not keep the ask off the book
+      if (!allowed) continue;
+
+      const clientOrderId = await placeLimitOrder(
+        connection,
+        market,
+        wallet,
+        action.side,
+        action.size,
+        action.price,
+        `${Side[action.side]} quote around mid ${mid}`,
+        true
+      );
+      if (clientOrderId === undefined) continue;
+      risk.recordOrder();
+      marketMaker.recordQuote(action.side, clientOrderId);
+      logger.log(
+        `Placed ${Side[action.side]} quote ${action.size.toFixed(
+          6
+        )} @ ${action.price.toFixed(4)}`
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, refreshMs));
+    await exchange.reloadMarket(connection, marketState);
+  }
+}
+
+// Runs trade() for one wallet, restarting it after unexpected errors so a
+// failing wallet never takes the others down with it
+async function runWallet(
+  connection: Connection,
+  market: MarketContext,
+  trader: Keypair,
+  risk: RiskManager
+) {
+  const { exchange, marketState } = market;
+  const publicKey = trader.publicKey.toString();
+  const logger = createLogger(`${publicKey} ${market.name}`);
+  const settings = getWalletSettings(publicKey, market.name);
+  logger.log(
+    `Settings: volume ${settings.volume}, percentage ${settings.percentage}, strategy ${settings.strategy}, mode ${settings.mode}, cancelTime ${settings.cancelTime}`
+  );
+  const wallet: WalletContext = {
+    trader,
+    logger,
+    risk,
+    orderManager: new OrderManager(settings.cancelTime),
+    exits: new ExitManager(),
+    grid: new GridManager(),
+    marketMaker: new MarketMaker(),
+  };
+  // Only trade() runs the exits; the grid and the market maker close their
+  // positions with their own orders
+  const managesExits =
+    settings.mode !== "grid" && settings.mode !== "marketMaking";
+  if (wallet.exits.enabled && !managesExits) {
+    logger.warn(
+      `Exits are not used in ${settings.mode} mode, fills get no take profit or stop.`
+    );
+  }
+  const logTradeEvent = (event: TradeEvent) => {
+    if (event.trader === publicKey) logger.log(describeTradeEvent(event));
+  };
+  ["fill", "reduce", "evict", "expire"].forEach((kind) =>
+    market.fills.events.on(kind, logTradeEvent)
+  );
+  // Entry fills open an exit plan, exit fills close it
+  market.fills.events.on("fill", (fill: TradeEvent) => {
+    if (fill.trader !== publicKey) return;
+    const order = wallet.orderManager.findForFill({
+      ...fill,
+      priceInTicks: marketState.floatPriceToTicks(fill.price),
+    });
+    if (managesExits) {
+      const plan = wallet.exits.onFill(fill, order);
+      if (plan) logger.log(`Exit: ${describeExit(plan)}`);
+    }
+    const level = wallet.grid.onFill(fill, order);
+    if (level) logger.log(`Grid fill: ${describeLevel(level)}`);
+  });
+
+  while (true) {
+    try {
+      // Without a seat the wallet can neither read its balances nor trade
+      await exchange.onboardTrader(connection, marketState, trader);
+
+      const {
+        solBalance,
+        baseWalletBalance,
+        quoteWalletBalance,
+        baseOpenOrdersBalance,
+        quoteOpenOrdersBalance,
+        totalBaseBalance,
+        totalQuoteBalance,
+      } = await exchange.checkUserBalance(connection, marketState, trader);
+
+      logger.log("SOL balance: ", solBalance);
+      logger.log("Base wallet balance: ", baseWalletBalance);
+      logger.log("Quote wallet balance: ", quoteWalletBalance);
+      logger.log("Base open orders balance: ", baseOpenOrdersBalance);
+      logger.log("Quote open orders balance: ", quoteOpenOrdersBalance);
+      logger.log("Total base balance: ", totalBaseBalance);
+      logger.log("Total quote balance: ", totalQuoteBalance);
+
+      if (settings.mode === "marketMaking") {
+        await makeMarket(connection, market, wallet, settings.volume);
+      } else if (settings.mode === "grid") {
+        await grid(
+          connection,
+          market,
+          wallet,
+          settings.volume,
+          settings.cancelTime
+        );
+      } else {
+        await trade(
+          connection,
+          market,
+          wallet,
+          getStrategy(settings.strategy),
+          settings.volume,
+          settings.percentage,
+          settings.cancelTime
+        );
+      }
+      return;
+    } catch (error) {
+      logger.error("Wallet stopped with an error, restarting in 30s:", error);
+      await new Promise((resolve) => setTimeout(resolve, 30 * 1000));
+    }
+  }
+}
+
+async function main() {
+  const paper = process.argv.includes("--paper");
+  if (paper) {
+    console.log("Paper trading mode: orders are simulated, no funds are used.");
+  }
+
+  const traders = getPrivateKeysFromEnv().map((privateKey) =>
+    Keypair.fromSecretKey(base58.decode(privateKey))
+  );
+
+  // One connection and Phoenix client shared by every wallet and market. Paper
+  // mode only creates the client when a market has no snapshot yet.
+  const connection = new Connection("https://api.mainnet-beta.solana.com");
+  let phoenix: Promise<Client> | undefined;
+  const loadMarketState = async (marketName: string) => {
+    phoenix = phoenix ?? createPhoenixClient(connection);
+    return await getMarketState(await phoenix, marketName);
+  };
+
+  // One ledger for every wallet and market, fed by the markets' fills
+  const ledger = new Ledger(
+    paper ? path.join(config.paper.directory, "ledger.jsonl") : undefined
+  );
+  const fillsDirectory = paper
+    ? path.join(config.paper.directory, "fills")
+    : config.fills.directory;
+  const riskStateFile = paper
+    ? path.join(config.paper.directory, "risk.json")
+    : config.risk.stateFile;
+
+  const marketNames = Object.keys(config.markets);
+  const markets = await Promise.all(
+    marketNames.map(async (marketName): Promise<MarketContext> => {
+      const { symbol, interval } = config.markets[marketName];
+      const marketState = paper
+        ? await loadMarketSnapshot(
+            marketName,
+            config.paper.directory,
+            async () => {
+              const { address } = await loadMarketState(marketName);
+              const account = await connection.getAccountInfo(
+                address,
+                "confirmed"
+              );
+              if (!account) throw new Error(`Market ${address} not found`);
+              return { address, buffer: account.data };
+            }
+          )
+        : await loadMarketState(marketName);
+      // Markets sharing a symbol and interval share one feed
+      const feed = getCandleFeed(symbol, interval);
+      const fills = new FillTracker(
+        connection,
+        marketState,
+        marketName,
+        fillsDirectory
+      );
+      ledger.importFills(fills.history());
+      fills.events.on("fill", (fill: TradeEvent) => ledger.recordFill(fill));
+
+      // Each paper market keeps its own virtual balances and book
+      let exchange: Exchange = liveExchange;
+      if (paper) {
+        const paperExchange = new PaperExchange(marketName, config.paper);
+        feed.events.on("price", (price: number) =>
+          paperExchange.updatePrice(price)
+        );
+        paperExchange.events.on("tradeEvent", (event) => fills.record(event));
+        exchange = paperExchange;
+      } else {
+        traders.forEach((trader) =>
+          fills.addTrader(trader.publicKey.toString())
+        );
+        await fills.start();
+      }
+      return {
+        name: marketName,
+        marketState,
+        exchange,
+        feed,
+        priceSource: new PriceSource(
+          feed,
+          marketState,
+          paper ? undefined : connection
+        ),
+        confirmation: new TimeframeConfirmation(
+          symbol,
+          config.confirmation.timeframes
+        ),
+        fills,
+        ledger,
+      };
+    })
+  );
+
+  await Promise.all(
+    markets.map(({ feed, confirmation }) =>
+      Promise.all([feed.ready, confirmation.ready])
+    )
+  );
+
+  const runs: Promise<void>[] = [];
+  for (const market of markets) {
+    for (const trader of traders) {
+      const risk = new RiskManager(
+        trader.publicKey.toString(),
+        market.name,
+        config.risk,
+        riskStateFile
+      );
+      runs.push(runWallet(connection, market, trader, risk));
+    }
   }
+  await Promise.all(runs);
 }
 
 main().catch((err) => {
@@ -0,0 +1,291 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SendTransactionError,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { config } from "./config";
+
+export type SenderSettings = {
+  computeUnitMargin: number;
+  minComputeUnits: number;
+  fallbackComputeUnits: number;
+  priorityFeeMicroLamports: number;
+  estimatePriorityFee: boolean;
+  priorityFeePercentile: number;
+  maxPriorityFeeMicroLamports: number;
+  rebroadcastMs: number;
+  maxBlockhashes: number;
+};
+
+export type SendResult = {
+  signature: string;
+  slot: number;
+  fee?: number; // In lamports, missing when the transaction could not be fetched
+  computeUnitsConsumed?: number;
+  computeUnitLimit: number;
+  priorityFeeMicroLamports: number;
+  blockhashes: number; // Blockhashes tried before the transaction landed
+};
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+function isComputeBudget(instruction: TransactionInstruction): boolean {
+  return instruction.programId.equals(ComputeBudgetProgram.programId);
+}
+
+function buildTransaction(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  computeUnitLimit: number,
+  priorityFeeMicroLamports: number
+): Transaction {
+  const transaction = new Transaction({ feePayer: payer });
+  transaction.add(
+    ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit })
+  );
+  if (priorityFeeMicroLamports > 0) {
+    transaction.add(
+      ComputeBudgetProgram.setComputeUnitPrice({
+        microLamports: priorityFeeMicroLamports,
+      })
+    );
+  }
+  return transaction.add(...instructions);
+}
+
+// Whether the instructions fit in one transaction together with the compute
+// budget instructions the sender adds
+export function fitsInTransaction(
+  payer: PublicKey,
+  instructions: TransactionInstruction[]
+): boolean {
+  const transaction = buildTransaction(
+    payer,
+    instructions.filter((instruction) => !isComputeBudget(instruction)),
+    MAX_COMPUTE_UNITS,
+    1
+  );
+  // Any blockhash does for measuring, it is the same size
+  transaction.recentBlockhash = PublicKey.default.toBase58();
+  try {
+    return (
+      transaction.serialize({
+        requireAllSignatures: false,
+        verifySignatures: false,
+      }).length <= PACKET_DATA_SIZE
+    );
+  } catch (error) {
+    // Serializing throws once the transaction is too large
+    return false;
+  }
+}
+
+// Runs the transaction with the maximum budget and sizes the limit from the
+// units it used. A failing simulation is thrown, nothing is sent.
+async function estimateComputeUnits(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  signers: Keypair[],
+  settings: SenderSettings
+): Promise<number> {
+  const transaction = buildTransaction(
+    signers[0].publicKey,
+    instructions,
+    MAX_COMPUTE_UNITS,
+    0
+  );
+  const { value } = await connection.simulateTransaction(transaction, signers);
+  if (value.err) {
+    throw new SendTransactionError({
+      action: "simulate",
+      signature: "",
+      transactionMessage: `Simulation failed: ${JSON.stringify(value.err)}`,
+      logs: value.logs ?? [],
+    });
+  }
+  if (!value.unitsConsumed) return settings.fallbackComputeUnits;
+  return Math.min(
+    MAX_COMPUTE_UNITS,
+    Math.max(
+      settings.minComputeUnits,
+      Math.ceil(value.unitsConsumed * settings.computeUnitMargin)
+    )
+  );
+}
+
+// Price per compute unit paid recently by transactions writing to the same
+// accounts, falling back to the configured fee
+async function estimatePriorityFee(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  settings: SenderSettings
+): Promise<number> {
+  if (!settings.estimatePriorityFee) return settings.priorityFeeMicroLamports;
+  const writable: PublicKey[] = [];
+  instructions.forEach((instruction) =>
+    instruction.keys.forEach((key) => {
+      if (key.isWritable && !writable.some((w) => w.equals(key.pubkey))) {
+        writable.push(key.pubkey);
+      }
+    })
+  );
+  try {
+    const fees = (
+      await connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writable,
+      })
+    )
+      .map((fee) => fee.prioritizationFee)
+      .sort((a, b) => a - b);
+    if (fees.length === 0) return settings.priorityFeeMicroLamports;
+    const index = Math.min(
+      fees.length - 1,
+      Math.floor((fees.length * settings.priorityFeePercentile) / 100)
+    );
+    return Math.min(
+      settings.maxPriorityFeeMicroLamports,
+      Math.max(settings.priorityFeeMicroLamports, fees[index])
+    );
+  } catch (error) {
+    console.error("Error estimating the priority fee:", error);
+    return settings.priorityFeeMicroLamports;
+  }
+}
+
+// Sends instructions the way every transaction of the bot is sent: simulated
+// first to size the compute budget, with a priority fee, and rebroadcast
+// until it is confirmed. Once its blockhash expires the transaction is signed
+// again with a fresh one, until maxBlockhashes blockhashes, the first one
+// included, have been tried. The first signer pays.
+export async function sendTransaction(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  signers: Keypair[],
+  settings: SenderSettings = config.sender
+): Promise<SendResult> {
+  // The budget is set here, never by the caller
+  instructions = instructions.filter(
+    (instruction) => !isComputeBudget(instruction)
+  );
+  const computeUnitLimit = await estimateComputeUnits(
+    connection,
+    instructions,
+    signers,
+    settings
+  );
+  const priorityFeeMicroLamports = await estimatePriorityFee(
+    connection,
+    instructions,
+    settings
+  );
+
+  for (
+    let blockhashes = 1;
+    blockhashes <= settings.maxBlockhashes;
+    blockhashes++
+  ) {
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash("confirmed");
+    const transaction = buildTransaction(
+      signers[0].publicKey,
+      instructions,
+      computeUnitLimit,
+      priorityFeeMicroLamports
+    );
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    transaction.sign(...signers);
+    const raw = transaction.serialize();
+
+    // Preflight already ran as the simulation
+    const signature = await connection.sendRawTransaction(raw, {
+      skipPreflight: true,
+      maxRetries: 0,
+    });
+
+    while (true) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, settings.rebroadcastMs)
+      );
+      const status = (await connection.getSignatureStatuses([signature]))
+        .value[0];
+      if (
+        status?.confirmationStatus === "confirmed" ||
+        status?.confirmationStatus === "finalized"
+      ) {
+        if (status.err) {
+          const landed = await connection.getTransaction(signature, {
+            commitment: "confirmed",
+            maxSupportedTransactionVersion: 0,
+          });
+          throw new SendTransactionError({
+            action: "send",
+            signature,
+            transactionMessage: `Transaction ${signature} failed: ${JSON.stringify(
+              status.err
+            )}`,
+            logs: landed?.meta?.logMessages ?? [],
+          });
+        }
+        return await describeResult(connection, signature, status.slot, {
+          computeUnitLimit,
+          priorityFeeMicroLamports,
+          blockhashes,
+        });
+      }
+
+      // Only signed again once nothing was seen of it and its blockhash can no
+      // longer land, so the same instructions never execute twice
+      const blockHeight = await connection.getBlockHeight("confirmed");
+      if (!status && blockHeight > lastValidBlockHeight) {
+        console.log(
+          `Blockhash expired before ${signature} was confirmed, signing again.`
+        );
+        break;
+      }
+      await connection
+        .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+        .catch((error) => console.error("Error rebroadcasting:", error));
+    }
+  }
+  throw new Error(
+    `Transaction not confirmed after ${settings.maxBlockhashes} blockhashes`
+  );
+}
+
+async function describeResult(
+  connection: Connection,
+  signature: string,
+  slot: number,
+  sent: {
+    computeUnitLimit: number;
+    priorityFeeMicroLamports: number;
+    blockhashes: number;
+  }
+): Promise<SendResult> {
+  const result: SendResult = { signature, slot, ...sent };
+  try {
+    const landed = await connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    result.fee = landed?.meta?.fee;
+    result.computeUnitsConsumed = landed?.meta?.computeUnitsConsumed;
+  } catch (error) {
+    console.error(`Error fetching transaction ${signature}:`, error);
+  }
+  return result;
+}
+
+export function describeSendResult(result: SendResult): string {
+  return `${result.signature} in slot ${result.slot}, fee ${
+    result.fee ?? "unknown"
+  } lamports, ${result.computeUnitsConsumed ?? "unknown"}/${
+    result.computeUnitLimit
+  } CU at ${result.priorityFeeMicroLamports} micro-lamports`;
+}
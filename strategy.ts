@@ -0,0 +1,179 @@
+import { MarketState, Side } from "@ellipsis-labs/phoenix-sdk";
+import { config } from "./config";
+import { Indicators } from "./indicators";
+import { Regime } from "./regime";
+
+export type StrategyContext = {
+  indicators: Indicators;
+  currentPrice: number;
+  marketState?: MarketState; // Not available when backtesting
+  volume: number; // Order size in USD
+  percentage: number; // Price offset in percent
+  regime?: Regime; // Detected market regime, see regime.ts
+};
+
+export type StrategyDecision =
+  | {
+      action: "order";
+      side: Side;
+      priceOffset: number; // Signed fraction of the current price, e.g. -0.1
+      size: number; // Order size in USD
+      reason: string;
+    }
+  | {
+      action: "hold";
+      reason: string;
+    };
+
+export interface Strategy {
+  name: string;
+  requires: string[]; // Indicators that must be available to decide
+
+  decide(context: StrategyContext): StrategyDecision;
+}
+
+const RSI_OVERBOUGHT = 75;
+const RSI_OVERSOLD = 25;
+
+function buy(context: StrategyContext, reason: string): StrategyDecision {
+  return {
+    action: "order",
+    side: Side.Bid,
+    priceOffset: -context.percentage / 100,
+    size: context.volume,
+    reason,
+  };
+}
+
+function sell(context: StrategyContext, reason: string): StrategyDecision {
+  return {
+    action: "order",
+    side: Side.Ask,
+    priceOffset: context.percentage / 100,
+    size: context.volume,
+    reason,
+  };
+}
+
+function hold(reason: string): StrategyDecision {
+  return { action: "hold", reason };
+}
+
+// RSI extremes take precedence over every other rule
+function extremeRsiDecision(
+  context: StrategyContext
+): StrategyDecision | undefined {
+  const { rsi } = context.indicators;
+  if (rsi > RSI_OVERBOUGHT) {
+    return sell(
+      context,
+      `RSI is above ${RSI_OVERBOUGHT}. Placing SELL limit order.`
+    );
+  }
+  if (rsi < RSI_OVERSOLD) {
+    return buy(
+      context,
+      `RSI is below ${RSI_OVERSOLD}. Placing BUY limit order.`
+    );
+  }
+  return undefined;
+}
+
+export const sidewayStrategy: Strategy = {
+  name: "sideway",
+  requires: ["rsi", "wma", "ema"],
+  decide(context) {
+    const extreme = extremeRsiDecision(context);
+    if (extreme) return extreme;
+
+    const { rsi, wma: wma45, ema: ema9 } = context.indicators;
+    if (rsi >= Math.min(wma45, ema9) && rsi <= Math.max(wma45, ema9)) {
+      if (wma45 < config.WMAlimitBuy) {
+        return buy(
+          context,
+          "RSI is within the sideway range and WMA45 is below the buy limit. Placing BUY limit order."
+        );
+      }
+      return hold(
+        "RSI is within the sideway range but WMA45 is not below the buy limit. No BUY limit order placed."
+      );
+    }
+    if (rsi > Math.max(wma45, ema9) && wma45 > config.WMAlimitSell) {
+      return sell(
+        context,
+        "RSI is above the sideway range and WMA45 is above the sell limit. Placing SELL limit order."
+      );
+    }
+    return hold(
+      "RSI is not within the sideway range and no conditions met for placing orders."
+    );
+  },
+};
+
+export const trendStrategy: Strategy = {
+  name: "trend",
+  requires: ["rsi", "wma"],
+  decide(context) {
+    const extreme = extremeRsiDecision(context);
+    if (extreme) return extreme;
+
+    const { rsi, wma: wma45 } = context.indicators;
+    if (wma45 < config.WMAlimitBuy && rsi < wma45) {
+      return buy(
+        context,
+        "WMA45 is below the buy limit and RSI is below WMA45. Placing BUY limit order."
+      );
+    }
+    if (wma45 > config.WMAlimitSell && rsi > wma45) {
+      return sell(
+        context,
+        "WMA45 is above the sell limit and RSI is above WMA45. Placing SELL limit order."
+      );
+    }
+    return hold("No conditions met for placing orders.");
+  },
+};
+
+// Trades the sideway rules in sideways markets and the trend rules in
+// trending ones, following the detected regime
+export const autoStrategy: Strategy = {
+  name: "auto",
+  requires: ["rsi", "wma", "ema"],
+  decide(context) {
+    const strategy =
+      context.regime === "trend" ? trendStrategy : sidewayStrategy;
+    return strategy.decide(context);
+  },
+};
+
+// Returns the required indicators that are disabled or lack data
+export function missingIndicators(
+  strategy: Strategy,
+  indicators: Indicators
+): string[] {
+  return strategy.requires.filter(
+    (name) => indicators[name] === undefined || isNaN(indicators[name])
+  );
+}
+
+const strategies = new Map<string, Strategy>();
+
+export function registerStrategy(strategy: Strategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+export function getStrategy(name: string): Strategy {
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    throw new Error(
+      `Strategy "${name}" not found. Available: ${Array.from(
+        strategies.keys()
+      ).join(", ")}`
+    );
+  }
+  return strategy;
+}
+
+registerStrategy(sidewayStrategy);
+registerStrategy(trendStrategy);
+registerStrategy(autoStrategy);
@@ -0,0 +1,58 @@
+import { after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Side } from "@ellipsis-labs/phoenix-sdk";
+import { TradeEvent } from "./fills";
+
+// Helpers shared by the *.test.ts files
+
+export function near(actual: number, expected: number) {
+  assert.ok(
+    Math.abs(actual - expected) < 1e-9,
+    `expected ${expected}, got ${actual}`
+  );
+}
+
+let signatures = 0;
+
+// A maker fill on SOL/USDC with its own signature, later than the ones before
+export function fill(
+  side: Side,
+  size: number,
+  price: number,
+  overrides: Partial<TradeEvent> = {}
+): TradeEvent {
+  signatures++;
+  return {
+    kind: "fill",
+    market: "SOL/USDC",
+    trader: "wallet",
+    signature: `signature-${signatures}`,
+    slot: 1,
+    timestamp: signatures,
+    side,
+    role: "maker",
+    orderSequenceNumber: "1",
+    price,
+    size,
+    fee: 0,
+    ...overrides,
+  };
+}
+
+const temporaryDirectories: string[] = [];
+
+after(() => {
+  temporaryDirectories.forEach((directory) =>
+    fs.rmSync(directory, { recursive: true, force: true })
+  );
+});
+
+// A fresh directory under the OS temp dir, removed once the test file is done
+export function tempDirectory(prefix: string): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), `${prefix}-`));
+  temporaryDirectories.push(directory);
+  return directory;
+}
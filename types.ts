@@ -2,3 +2,34 @@ import * as Phoenix from "@ellipsis-labs/phoenix-sdk";
 
 export type MarketState = Phoenix.MarketState;
 export type Side = Phoenix.Side;
+
+export type UserBalance = {
+  solBalance: number;
+  baseWalletBalance: number;
+  quoteWalletBalance: number;
+  baseOpenOrdersBalance: number;
+  quoteOpenOrdersBalance: number;
+  totalBaseBalance: number;
+  totalQuoteBalance: number;
+};
+
+// A new limit order, placed either with SOL wrapped in the same transaction
+// (volume in base lots) or with base and quote already in the wallet
+export type OrderPlacement =
+  | {
+      kind: "sol";
+      side: Side;
+      volume: number;
+      priceInTicks: number;
+      clientOrderId?: number;
+      validSeconds?: number;
+    }
+  | {
+      kind: "usd";
+      side: Side;
+      quoteLots: number;
+      priceInTicks: number;
+      currentPrice: number;
+      clientOrderId?: number;
+      validSeconds?: number;
+    };
@@ -0,0 +1,26 @@
+import { config } from "./config";
+
+export type WalletSettings = {
+  volume: number;
+  percentage: number;
+  strategy: string;
+  mode: string;
+  cancelTime: number;
+};
+
+// Global config values, overridden by the market's entry in config.markets
+// and then by the wallet's entry in config.wallets
+export function getWalletSettings(
+  publicKey: string,
+  marketName: string
+): WalletSettings {
+  const market = config.markets[marketName] ?? {};
+  const overrides = config.wallets[publicKey] ?? {};
+  return {
+    volume: overrides.volume ?? market.volume ?? config.volume,
+    percentage: overrides.percentage ?? market.percentage ?? config.percentage,
+    strategy: overrides.strategy ?? market.strategy ?? config.strategy,
+    mode: overrides.mode ?? market.mode ?? config.mode,
+    cancelTime: overrides.cancelTime ?? market.cancelTime ?? config.cancelTime,
+  };
+}